@@ -0,0 +1,269 @@
+import path from 'path';
+import { FileSelection, fileSelections } from './config';
+
+export type Command = 'extract' | 'summary' | 'diff';
+
+export type OutputFormat = 'json' | 'csv' | 'text';
+
+export type Verbosity = 'quiet' | 'normal' | 'verbose';
+
+export interface CommandLine {
+    command: Command;
+    targets: string[]; // repositories, or extracted imports for summary/diff
+    output?: string;
+    format?: OutputFormat;
+    languages: string[]; // plugins to run, by name
+    plugins: string[]; // external plugins: module paths or package names
+    include: string[]; // only files matching these globs are analyzed
+    exclude: string[];
+    includeTests?: boolean;
+    usages?: boolean;
+    files?: FileSelection;
+    configPath?: string;
+    printConfig: boolean;
+    explainIgnored: boolean;
+    verbosity: Verbosity;
+}
+
+export const usage = `Usage: importfinder <command> [options]
+
+Commands:
+  extract <repo> [output]   Extract the imports of a repository (default command)
+  summary <repo|json>       Count imports by language and library, from a
+                            repository or a file written by extract
+  diff <before> <after>     Compare the libraries of two repositories or
+                            extract results: added, removed, new versions
+
+Options:
+  -o, --output <path>       Where to write the result (extract: the JSON or
+                            CSV file, summary/diff: the report, or stdout)
+  -f, --format <format>     extract: json (default) or csv
+                            summary/diff: text (default) or json
+  -l, --language <names>    Only run these plugins, e.g. javascript,java
+                            (repeatable)
+      --plugin <module>     Load an external plugin (repeatable)
+      --include <glob>      Only analyze files matching the glob (repeatable)
+      --exclude <glob>      Skip files matching the glob (repeatable)
+      --include-tests       Also analyze test files
+      --usages              Also analyze the used members of the libraries
+      --files <mode>        all (default), gitignore or tracked
+  -c, --config <path>       Config file, added to the repository's
+                            .importfinderrc
+      --print-config        Print the effective configuration and exit
+      --explain-ignored     Log the rule excluding each ignored file
+  -v, --verbose             Log each analyzed file and ignored path
+  -q, --quiet               Only log errors
+  -h, --help                Show this help
+  -V, --version             Show the version`;
+
+const commands: Command[] = ['extract', 'summary', 'diff'];
+
+const formatsByCommand: Record<Command, OutputFormat[]> = {
+    extract: ['json', 'csv'],
+    summary: ['text', 'json'],
+    diff: ['text', 'json'],
+};
+
+/**
+ * Parses the arguments following `importfinder`. Returns 'help' or
+ * 'version' when asked for, and throws a usage error, whose message is meant
+ * for the user, for invalid arguments.
+ */
+export function parseCommandLine(
+    argv: string[],
+): CommandLine | 'help' | 'version' {
+    const commandLine: CommandLine = {
+        command: 'extract',
+        targets: [],
+        languages: [],
+        plugins: [],
+        include: [],
+        exclude: [],
+        printConfig: false,
+        explainIgnored: false,
+        verbosity: 'normal',
+    };
+    const positionals: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--') {
+            positionals.push(...argv.slice(i + 1));
+            break;
+        }
+        if (!arg.startsWith('-') || arg === '-') {
+            positionals.push(arg);
+            continue;
+        }
+
+        // `--name=value` or `--name value`
+        const [name, inlineValue] = arg.startsWith('--')
+            ? splitOnce(arg, '=')
+            : [arg, undefined];
+        const value = () => {
+            if (inlineValue !== undefined) return inlineValue;
+            if (i + 1 >= argv.length || argv[i + 1].startsWith('-')) {
+                throw usageError(`Missing value for ${name}`);
+            }
+            return argv[++i];
+        };
+        const noValue = () => {
+            if (inlineValue !== undefined) {
+                throw usageError(`${name} does not take a value`);
+            }
+        };
+
+        switch (name) {
+            case '-h':
+            case '--help':
+                return 'help';
+            case '-V':
+            case '--version':
+                return 'version';
+            case '-o':
+            case '--output':
+                commandLine.output = value();
+                break;
+            case '-f':
+            case '--format':
+                commandLine.format = value() as OutputFormat;
+                break;
+            case '-l':
+            case '--language':
+                commandLine.languages.push(
+                    ...value()
+                        .split(',')
+                        .map((language) => language.trim())
+                        .filter(Boolean),
+                );
+                break;
+            case '--plugin':
+                commandLine.plugins.push(value());
+                break;
+            case '--include':
+                commandLine.include.push(value());
+                break;
+            case '--exclude':
+                commandLine.exclude.push(value());
+                break;
+            case '--include-tests':
+                noValue();
+                commandLine.includeTests = true;
+                break;
+            case '--usages':
+                noValue();
+                commandLine.usages = true;
+                break;
+            case '--files': {
+                const files = value();
+                if (!fileSelections.includes(files as FileSelection)) {
+                    throw usageError(
+                        `--files must be one of ${fileSelections.join(', ')}`,
+                    );
+                }
+                commandLine.files = files as FileSelection;
+                break;
+            }
+            case '-c':
+            case '--config':
+                commandLine.configPath = value();
+                break;
+            case '--print-config':
+                noValue();
+                commandLine.printConfig = true;
+                break;
+            case '--explain-ignored':
+                noValue();
+                commandLine.explainIgnored = true;
+                break;
+            case '-v':
+            case '--verbose':
+                noValue();
+                commandLine.verbosity = 'verbose';
+                break;
+            case '-q':
+            case '--quiet':
+                noValue();
+                commandLine.verbosity = 'quiet';
+                break;
+            default:
+                throw usageError(`Unknown option ${name}`);
+        }
+    }
+
+    // Without a command, the arguments are those of extract
+    if (commands.includes(positionals[0] as Command)) {
+        commandLine.command = positionals.shift() as Command;
+    }
+    commandLine.targets = positionals;
+
+    switch (commandLine.command) {
+        case 'extract':
+            if (positionals.length === 0) {
+                throw usageError('Missing the path of the repository');
+            }
+            if (positionals.length > 2) {
+                throw usageError('extract takes a repository and an output');
+            }
+            // `extract <repo> <output>`, as before --output existed
+            if (positionals.length === 2) {
+                if (commandLine.output) {
+                    throw usageError('The output is given twice');
+                }
+                commandLine.output = positionals[1];
+                commandLine.targets = [positionals[0]];
+            }
+            break;
+        case 'summary':
+            if (positionals.length !== 1) {
+                throw usageError(
+                    'summary takes a repository or an extract result',
+                );
+            }
+            break;
+        case 'diff':
+            if (positionals.length !== 2) {
+                throw usageError(
+                    'diff takes two repositories or extract results',
+                );
+            }
+            break;
+    }
+
+    // Plugins match files against absolute project paths
+    commandLine.targets = commandLine.targets.map((target) =>
+        path.resolve(target),
+    );
+    if (commandLine.output) {
+        commandLine.output = path.resolve(commandLine.output);
+    }
+
+    const formats = formatsByCommand[commandLine.command];
+    if (commandLine.format && !formats.includes(commandLine.format)) {
+        throw usageError(
+            `--format of ${commandLine.command} must be one of ${formats.join(', ')}`,
+        );
+    }
+
+    return commandLine;
+}
+
+export function isUsageError(error: unknown): error is Error {
+    return error instanceof Error && error.name === 'UsageError';
+}
+
+function usageError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'UsageError';
+    return error;
+}
+
+function splitOnce(
+    text: string,
+    separator: string,
+): [string, string | undefined] {
+    const index = text.indexOf(separator);
+    return index === -1
+        ? [text, undefined]
+        : [text.slice(0, index), text.slice(index + 1)];
+}
@@ -0,0 +1,288 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { parse, ParseError } from 'jsonc-parser';
+import yaml from 'js-yaml';
+import { ExclusionRules, PluginSettings } from './types';
+
+export interface ImportFinderConfig {
+    plugins: string[]; // external plugins: module paths or package names
+    enabledPlugins: string[]; // when not empty, only these plugins run
+    disabledPlugins: string[];
+    exclude: ExclusionRules; // added to the builtin global exclusions
+    include: ExclusionRules; // builtin global exclusions to drop, e.g. `lib`
+    pluginSettings: Record<string, PluginSettings>; // by plugin name
+    includeTests: boolean; // analyze test files too
+    files: FileSelection;
+    output: OutputConfig;
+}
+
+/**
+ * Which files of the repository are analyzed, besides the exclusions and
+ * `.importfinderignore` files:
+ * - `gitignore`: those not ignored by .gitignore files or .git/info/exclude
+ * - `tracked`: those in the git index
+ * - `all`: every file (default)
+ */
+export type FileSelection = 'gitignore' | 'tracked' | 'all';
+
+export const fileSelections: FileSelection[] = ['gitignore', 'tracked', 'all'];
+
+export interface OutputConfig {
+    path: string;
+    usages: boolean; // also analyze the usages of the imported libraries
+}
+
+// What a config file sets: lists are added, unset settings are kept
+type ConfigOverrides = Omit<
+    ImportFinderConfig,
+    'includeTests' | 'files' | 'output'
+> & {
+    includeTests?: boolean;
+    files?: FileSelection;
+    output: Partial<OutputConfig>;
+};
+
+export const configFileNames = [
+    '.importfinderrc',
+    '.importfinderrc.json',
+    '.importfinderrc.yaml',
+    '.importfinderrc.yml',
+];
+
+export function createDefaultConfig(): ImportFinderConfig {
+    return {
+        plugins: [],
+        enabledPlugins: [],
+        disabledPlugins: [],
+        exclude: { directories: [], filePatterns: [] },
+        include: { directories: [], filePatterns: [] },
+        pluginSettings: {},
+        includeTests: false,
+        files: 'all',
+        output: { path: './extracted-imports.json', usages: false },
+    };
+}
+
+export function createDefaultPluginSettings(): PluginSettings {
+    return {
+        exclude: { directories: [], filePatterns: [] },
+        include: { directories: [], filePatterns: [] },
+        localImportPrefixes: [],
+    };
+}
+
+/**
+ * Builds the effective configuration: the defaults, then the
+ * `.importfinderrc` at the root of the analyzed repository, then the config
+ * file given explicitly. Lists add up, while other settings are replaced.
+ */
+export async function loadConfig(
+    repoPath: string,
+    explicitConfigPath?: string,
+): Promise<ImportFinderConfig> {
+    let config = createDefaultConfig();
+
+    for (const fileName of configFileNames) {
+        const configPath = path.join(repoPath, fileName);
+        if (await exists(configPath)) {
+            config = mergeConfig(config, await readConfigFile(configPath));
+            break;
+        }
+    }
+
+    if (explicitConfigPath) {
+        config = mergeConfig(
+            config,
+            await readConfigFile(path.resolve(explicitConfigPath)),
+        );
+    }
+
+    return config;
+}
+
+function mergeConfig(
+    config: ImportFinderConfig,
+    overrides: ConfigOverrides,
+): ImportFinderConfig {
+    const pluginSettings = { ...config.pluginSettings };
+    for (const [name, settings] of Object.entries(overrides.pluginSettings)) {
+        const base = pluginSettings[name] ?? createDefaultPluginSettings();
+        pluginSettings[name] = {
+            exclude: mergeExclusionRules(base.exclude, settings.exclude),
+            include: mergeExclusionRules(base.include, settings.include),
+            localImportPrefixes: mergeLists(
+                base.localImportPrefixes,
+                settings.localImportPrefixes,
+            ),
+            includeTests: settings.includeTests ?? base.includeTests,
+        };
+    }
+
+    return {
+        plugins: mergeLists(config.plugins, overrides.plugins),
+        enabledPlugins: mergeLists(
+            config.enabledPlugins,
+            overrides.enabledPlugins,
+        ),
+        disabledPlugins: mergeLists(
+            config.disabledPlugins,
+            overrides.disabledPlugins,
+        ),
+        exclude: mergeExclusionRules(config.exclude, overrides.exclude),
+        include: mergeExclusionRules(config.include, overrides.include),
+        pluginSettings,
+        includeTests: overrides.includeTests ?? config.includeTests,
+        files: overrides.files ?? config.files,
+        output: { ...config.output, ...overrides.output },
+    };
+}
+
+function mergeExclusionRules(
+    rules: ExclusionRules,
+    overrides: ExclusionRules,
+): ExclusionRules {
+    return {
+        directories: mergeLists(rules.directories, overrides.directories),
+        filePatterns: mergeLists(rules.filePatterns, overrides.filePatterns),
+    };
+}
+
+function mergeLists(list: string[], overrides: string[]): string[] {
+    return Array.from(new Set([...list, ...overrides]));
+}
+
+/**
+ * Reads a config file, in JSON (comments allowed) or YAML. Without an
+ * extension, content starting with `{` is read as JSON.
+ */
+async function readConfigFile(configPath: string): Promise<ConfigOverrides> {
+    const content = await fs.readFile(configPath, 'utf8');
+    const extension = path.extname(configPath);
+
+    let raw: unknown;
+    if (
+        extension === '.json' ||
+        (extension === '' && content.trimStart().startsWith('{'))
+    ) {
+        const errors: ParseError[] = [];
+        raw = parse(content, errors, { allowTrailingComma: true });
+        if (errors.length > 0) {
+            throw new Error(`Invalid JSON in ${configPath}`);
+        }
+    } else {
+        raw = yaml.load(content);
+    }
+
+    return validateConfig(raw ?? {}, configPath);
+}
+
+function validateConfig(raw: unknown, configPath: string): ConfigOverrides {
+    const invalid = (problem: string) =>
+        new Error(`Invalid ${configPath}: ${problem}`);
+    if (!isObject(raw)) {
+        throw invalid('expected an object');
+    }
+
+    const readList = (value: unknown, key: string): string[] => {
+        if (value === undefined) return [];
+        if (
+            !Array.isArray(value) ||
+            value.some((item) => typeof item !== 'string')
+        ) {
+            throw invalid(`"${key}" must be a list of strings`);
+        }
+        return value;
+    };
+    const readRules = (value: unknown, key: string): ExclusionRules => {
+        if (value !== undefined && !isObject(value)) {
+            throw invalid(`"${key}" must be an object`);
+        }
+        return {
+            directories: readList(value?.directories, `${key}.directories`),
+            filePatterns: readList(value?.filePatterns, `${key}.filePatterns`),
+        };
+    };
+
+    const readBoolean = (value: unknown, key: string) => {
+        if (value !== undefined && typeof value !== 'boolean') {
+            throw invalid(`"${key}" must be true or false`);
+        }
+        return value;
+    };
+
+    const pluginSettings: Record<string, PluginSettings> = {};
+    if (raw.pluginSettings !== undefined && !isObject(raw.pluginSettings)) {
+        throw invalid('"pluginSettings" must be an object');
+    }
+    for (const [name, settings] of Object.entries(raw.pluginSettings ?? {})) {
+        const key = `pluginSettings.${name}`;
+        if (!isObject(settings)) {
+            throw invalid(`"${key}" must be an object`);
+        }
+        pluginSettings[name] = {
+            exclude: readRules(settings.exclude, `${key}.exclude`),
+            include: readRules(settings.include, `${key}.include`),
+            localImportPrefixes: readList(
+                settings.localImportPrefixes,
+                `${key}.localImportPrefixes`,
+            ),
+            includeTests: readBoolean(
+                settings.includeTests,
+                `${key}.includeTests`,
+            ),
+        };
+    }
+
+    const files = raw.files;
+    if (
+        files !== undefined &&
+        (typeof files !== 'string' ||
+            !fileSelections.includes(files as FileSelection))
+    ) {
+        throw invalid(`"files" must be one of ${fileSelections.join(', ')}`);
+    }
+
+    if (raw.output !== undefined && !isObject(raw.output)) {
+        throw invalid('"output" must be an object');
+    }
+    const output: Partial<OutputConfig> = {};
+    if (raw.output?.path !== undefined) {
+        if (typeof raw.output.path !== 'string') {
+            throw invalid('"output.path" must be a string');
+        }
+        // Relative to the config file, like plugin paths
+        output.path = path.resolve(path.dirname(configPath), raw.output.path);
+    }
+    if (raw.output?.usages !== undefined) {
+        output.usages = readBoolean(raw.output.usages, 'output.usages');
+    }
+
+    return {
+        plugins: readList(raw.plugins, 'plugins').map((plugin) =>
+            plugin.startsWith('.')
+                ? path.resolve(path.dirname(configPath), plugin)
+                : plugin,
+        ),
+        enabledPlugins: readList(raw.enabledPlugins, 'enabledPlugins'),
+        disabledPlugins: readList(raw.disabledPlugins, 'disabledPlugins'),
+        exclude: readRules(raw.exclude, 'exclude'),
+        include: readRules(raw.include, 'include'),
+        pluginSettings,
+        includeTests: readBoolean(raw.includeTests, 'includeTests'),
+        files: files as FileSelection | undefined,
+        output,
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -1,51 +1,273 @@
-import { saveImportsToJsonFile } from './util';
-import { ImportStatement } from './types';
+import * as fs from 'fs/promises';
+import {
+    diffImports,
+    formatDiff,
+    formatSummary,
+    saveImportsToCsvFile,
+    saveImportsToJsonFile,
+    saveUsagesToJsonFile,
+    summarizeImports,
+    summarizeUsages,
+} from './util';
+import { ImportStatement, Plugin, UsageStatement } from './types';
 import { groupFilesByExtractor } from './plugins/extractorDispatcher';
+import {
+    builtinPlugins,
+    loadExternalPlugins,
+    selectPlugins,
+} from './plugins/plugin-loader';
+import { findIgnoreRule, setExplainIgnoredFiles } from './plugins/plugin.util';
+import { createDefaultConfig, ImportFinderConfig, loadConfig } from './config';
+import {
+    CommandLine,
+    isUsageError,
+    parseCommandLine,
+    usage,
+    Verbosity,
+} from './cli';
+import path from 'path';
 
-async function extractImports(repoPath: string): Promise<ImportStatement[]> {
+async function extractImports(
+    repoPath: string,
+    plugins: Plugin[],
+    config: ImportFinderConfig,
+    includedFiles: string[] = [], // globs, all files when empty
+): Promise<{
+    importStatements: ImportStatement[];
+    usageStatements: UsageStatement[];
+}> {
     console.time('extractImports');
 
     const importStatements: ImportStatement[] = [];
-    const groupedFiles = await groupFilesByExtractor(repoPath);
+    const usageStatements: UsageStatement[] = [];
+    const groupedFiles = await groupFilesByExtractor(repoPath, plugins, config);
+    // Like exclusions, a glob matching a directory includes its files
+    const inclusions = { directories: [], filePatterns: includedFiles };
 
     for (const [extractor, files] of groupedFiles.entries()) {
         for (const file of files) {
-            if (extractor.isIgnored(file)) {
+            if (
+                extractor.isIgnored(file, repoPath) ||
+                (includedFiles.length > 0 &&
+                    !findIgnoreRule(file, repoPath, inclusions))
+            ) {
                 continue;
             }
+            console.debug(`Analyzing ${path.relative(repoPath, file)}`);
             const imports = await extractor.extractImports(file, repoPath);
             importStatements.push(...imports);
+
+            // The usage pass is optional, as it re-reads every file
+            if (config.output.usages && extractor.extractUsages) {
+                const usages = await extractor.extractUsages(file, repoPath);
+                usageStatements.push(...usages);
+            }
         }
     }
 
     console.timeEnd('extractImports');
+    return { importStatements, usageStatements };
+}
+
+// The config of a repository, with the command line overriding the files
+async function loadCommandLineConfig(
+    repoPath: string,
+    commandLine: CommandLine,
+): Promise<ImportFinderConfig> {
+    const config = await loadConfig(repoPath, commandLine.configPath);
+    if (commandLine.command === 'extract' && commandLine.output) {
+        config.output.path = commandLine.output;
+    }
+    if (commandLine.usages) config.output.usages = true;
+    if (commandLine.includeTests) config.includeTests = true;
+    if (commandLine.files) config.files = commandLine.files;
+    if (commandLine.languages.length > 0) {
+        config.enabledPlugins = commandLine.languages;
+    }
+    config.exclude.filePatterns.push(...commandLine.exclude);
+    config.plugins.push(
+        ...commandLine.plugins.map((plugin) =>
+            plugin.startsWith('.') ? path.resolve(plugin) : plugin,
+        ),
+    );
+    return config;
+}
+
+async function analyzeRepository(
+    repoPath: string,
+    commandLine: CommandLine,
+): Promise<{
+    config: ImportFinderConfig;
+    importStatements: ImportStatement[];
+    usageStatements: UsageStatement[];
+}> {
+    const config = await loadCommandLineConfig(repoPath, commandLine);
+    const plugins = selectPlugins(
+        [...builtinPlugins, ...loadExternalPlugins(config.plugins, repoPath)],
+        config,
+    );
+    return {
+        config,
+        ...(await extractImports(
+            repoPath,
+            plugins,
+            config,
+            commandLine.include,
+        )),
+    };
+}
+
+// summary and diff take repositories, or the JSON files written by extract
+async function readOrExtractImports(
+    target: string,
+    commandLine: CommandLine,
+): Promise<ImportStatement[]> {
+    const stats = await fs.stat(target).catch(() => {
+        throw new Error(`${target} does not exist`);
+    });
+    if (stats.isDirectory()) {
+        return (await analyzeRepository(target, commandLine)).importStatements;
+    }
+
+    const importStatements = JSON.parse(await fs.readFile(target, 'utf8'));
+    if (!Array.isArray(importStatements)) {
+        throw new Error(`${target} is not a result of extract`);
+    }
     return importStatements;
 }
 
-(async () => {
-    const args = process.argv.slice(2);
-    let repoPath: string;
-    let resultPath: string;
-    if (args.length === 0) {
-        // console.warn(
-        //     'Please provide the path to the repo you want to analyze.',
-        // );
-        // process.exit(1);
-        console.warn('No path provided, running in TEST MODE...');
-        //  hardcode the paths here
-        repoPath =
-            '/Users/sebastianiscruleasa/extra/Master/Dissertation/DocumentationTests/habitica';
-        resultPath =
-            '/Users/sebastianiscruleasa/extra/Master/Dissertation/ImportFinder/demo/extracted-imports-habitica.json';
+async function writeReport(report: string, outputPath?: string) {
+    if (outputPath) {
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, report + '\n', 'utf8');
     } else {
-        repoPath = args[0];
-        resultPath = args[1] || './extracted-imports.json';
+        process.stdout.write(report + '\n');
+    }
+}
+
+// Quiet keeps errors only, and debug messages need verbose
+function applyVerbosity(verbosity: Verbosity) {
+    const silenced = {
+        quiet: ['log', 'info', 'warn', 'debug', 'time', 'timeEnd'],
+        normal: ['debug'],
+        verbose: [],
+    }[verbosity];
+    for (const method of silenced) {
+        Object.assign(console, { [method]: () => {} });
+    }
+    setExplainIgnoredFiles(verbosity === 'verbose');
+}
+
+async function readVersion(): Promise<string> {
+    const packageJson = await fs.readFile(
+        path.join(__dirname, '..', 'package.json'),
+        'utf8',
+    );
+    return JSON.parse(packageJson).version;
+}
+
+(async () => {
+    let commandLine: CommandLine;
+    try {
+        const parsed = parseCommandLine(process.argv.slice(2));
+        if (parsed === 'help') {
+            console.log(usage);
+            return;
+        }
+        if (parsed === 'version') {
+            console.log(await readVersion());
+            return;
+        }
+        commandLine = parsed;
+    } catch (error) {
+        if (isUsageError(error)) {
+            console.error(
+                `${error.message}\n${usage.split('\n')[0]}\nRun with --help for the commands and options.`,
+            );
+            process.exit(2);
+        }
+        console.error('An error occurred while reading the arguments:', error);
+        process.exit(1);
     }
 
+    applyVerbosity(commandLine.verbosity);
+    if (commandLine.explainIgnored) setExplainIgnoredFiles(true);
+
     try {
-        const imports = await extractImports(repoPath);
-        await saveImportsToJsonFile(imports, resultPath);
-        // await saveImportsToCsvFile(imports, './extracted-imports.csv');
+        if (commandLine.printConfig) {
+            const config = await loadCommandLineConfig(
+                commandLine.targets[0],
+                commandLine,
+            );
+            await writeReport(JSON.stringify(config, null, 2));
+            return;
+        }
+
+        switch (commandLine.command) {
+            case 'extract': {
+                const { config, importStatements, usageStatements } =
+                    await analyzeRepository(
+                        commandLine.targets[0],
+                        commandLine,
+                    );
+                if (commandLine.format === 'csv') {
+                    // Only the default path is named after the JSON format
+                    const isDefaultPath =
+                        config.output.path ===
+                        createDefaultConfig().output.path;
+                    await saveImportsToCsvFile(
+                        importStatements,
+                        isDefaultPath
+                            ? config.output.path.replace(/\.json$/, '.csv')
+                            : config.output.path,
+                    );
+                } else {
+                    await saveImportsToJsonFile(
+                        importStatements,
+                        config.output.path,
+                    );
+                }
+                if (config.output.usages) {
+                    await saveUsagesToJsonFile(
+                        summarizeUsages(usageStatements),
+                        config.output.path.replace(
+                            /(\.json|\.csv)?$/,
+                            '.usages.json',
+                        ),
+                    );
+                }
+                break;
+            }
+            case 'summary': {
+                const summary = summarizeImports(
+                    await readOrExtractImports(
+                        commandLine.targets[0],
+                        commandLine,
+                    ),
+                );
+                await writeReport(
+                    commandLine.format === 'json'
+                        ? JSON.stringify(summary, null, 2)
+                        : formatSummary(summary),
+                    commandLine.output,
+                );
+                break;
+            }
+            case 'diff': {
+                const [before, after] = commandLine.targets;
+                const diff = diffImports(
+                    await readOrExtractImports(before, commandLine),
+                    await readOrExtractImports(after, commandLine),
+                );
+                await writeReport(
+                    commandLine.format === 'json'
+                        ? JSON.stringify(diff, null, 2)
+                        : formatDiff(diff),
+                    commandLine.output,
+                );
+                break;
+            }
+        }
     } catch (error) {
         console.error(
             'An error occurred during the extraction process:',
@@ -0,0 +1,349 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const csharpPlugin: Plugin = {
+    name: 'csharp',
+    extensions: ['.cs'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const csprojPaths = groupedFilesByExtensions.get('.csproj') ?? [];
+    const centralPackageVersions = await readCentralPackageVersions(
+        (groupedFilesByExtensions.get('.props') ?? []).filter(
+            (file) => path.basename(file) === 'Directory.Packages.props',
+        ),
+    );
+    const [rootNamespaces, packageMap] = await Promise.all([
+        findRootNamespaces(csprojPaths),
+        buildPackageMap(csprojPaths, centralPackageVersions),
+    ]);
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: csharpExcludedDirectories,
+            filePatterns: csharpExcludedFilePatterns,
+        },
+        settings,
+        csharpTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'csharp'),
+        async extractImports(filePath: string, repoPath: string) {
+            // Files outside every project are resolved from the repo root
+            const projectPath =
+                findProjectPath(filePath, Array.from(packageMap.keys())) ||
+                repoPath;
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath,
+                [...rootNamespaces, ...settings.localImportPrefixes],
+                packageMap.get(projectPath) ?? new Map(),
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    rootNamespaces: string[],
+    packages: Map<string, string>,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = stripComments(await fs.readFile(filePath, 'utf8'));
+
+        const importStatements: ImportStatement[] = [];
+        const usingRegex =
+            /^\s*(global\s+)?using\s+(static\s+)?(?:(\w+)\s*=\s*)?([\w.]+(?:\s*<[^;]*>)?)\s*;/gm;
+        let match;
+        while ((match = usingRegex.exec(fileContent))) {
+            const isGlobal = match[1] !== undefined;
+            const isStatic = match[2] !== undefined;
+            const alias = match[3];
+            const target = match[4].replace(/\s+/g, '');
+            // Aliases may point at closed generic types: `using Ids = List<int>;`
+            const namespace = target.replace(/<.*$/, '');
+
+            if (isLocalImport(namespace, rootNamespaces)) {
+                continue;
+            }
+
+            const library = resolvePackage(namespace, packages);
+            if (!library && isDotNetBclNamespace(namespace)) {
+                continue;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: alias || isStatic ? target : '*',
+                modifiers: [
+                    isGlobal && 'global',
+                    isStatic && 'static',
+                    alias && `alias ${alias}`,
+                    !alias && !isStatic && 'wildcard', // Namespace imports
+                ].filter(Boolean) as string[],
+                language: getLanguageByExtension(extension),
+                library: library ?? 'No match found in NuGet packages',
+                fullImport: match[0].trim(),
+            });
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+// Removes comments but keeps string literals and line breaks intact
+function stripComments(source: string): string {
+    return source.replace(
+        /(@?"(?:\\.|[^"\\\n])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+        (whole, literal) => literal ?? whole.replace(/[^\n]/g, ''),
+    );
+}
+
+/**
+ * Finds the NuGet package whose id is the longest prefix of the namespace,
+ * e.g. `Newtonsoft.Json.Linq` ➝ `Newtonsoft.Json`. Package ids are matched
+ * case-insensitively, as NuGet treats them.
+ */
+function resolvePackage(
+    namespace: string,
+    packages: Map<string, string>,
+): string | null {
+    const parts = namespace.toLowerCase().split('.');
+    for (let i = parts.length; i > 0; i--) {
+        const library = packages.get(parts.slice(0, i).join('.'));
+        if (library) {
+            return library;
+        }
+    }
+    return null;
+}
+
+function isLocalImport(namespace: string, rootNamespaces: string[]): boolean {
+    return rootNamespaces.some(
+        (root) => namespace === root || namespace.startsWith(`${root}.`),
+    );
+}
+
+export function isDotNetBclNamespace(namespace: string): boolean {
+    return (
+        namespace === 'System' ||
+        namespace.startsWith('System.') ||
+        namespace === 'Microsoft' ||
+        namespace.startsWith('Microsoft.')
+    );
+}
+
+/**
+ * Collects the root namespaces of all projects in the repository: the
+ * `<RootNamespace>`/`<AssemblyName>` of each `.csproj`, defaulting to the
+ * project file name like MSBuild does.
+ */
+async function findRootNamespaces(csprojPaths: string[]): Promise<string[]> {
+    const rootNamespaces = new Set<string>();
+
+    for (const csprojPath of csprojPaths) {
+        rootNamespaces.add(path.basename(csprojPath, '.csproj'));
+        try {
+            const content = await fs.readFile(csprojPath, 'utf8');
+            for (const tag of ['RootNamespace', 'AssemblyName']) {
+                const match = content.match(
+                    new RegExp(`<${tag}>\\s*([\\w.]+)\\s*</${tag}>`),
+                );
+                if (match) {
+                    rootNamespaces.add(match[1]);
+                }
+            }
+        } catch (error) {
+            console.error(`Error reading ${csprojPath}:`, error);
+        }
+    }
+
+    return Array.from(rootNamespaces);
+}
+
+type PackageMap = Map<string, Map<string, string>>;
+
+/**
+ * Builds a map of project path => { lowercased package id: package@version }
+ * from the `PackageReference` items of each `.csproj`, overridden by the
+ * resolved versions (including transitive packages) of `packages.lock.json`
+ * when the project has one.
+ */
+async function buildPackageMap(
+    csprojPaths: string[],
+    centralPackageVersions: Map<string, Map<string, string>>,
+): Promise<PackageMap> {
+    const packageMap: PackageMap = new Map();
+
+    for (const csprojPath of csprojPaths) {
+        const projectPath = path.dirname(csprojPath);
+        const packages = new Map<string, string>();
+
+        try {
+            const content = await fs.readFile(csprojPath, 'utf8');
+            const centralVersions = findClosestCentralVersions(
+                projectPath,
+                centralPackageVersions,
+            );
+            for (const { id, version } of parsePackageReferences(content)) {
+                const resolvedVersion =
+                    version ?? centralVersions.get(id.toLowerCase());
+                packages.set(
+                    id.toLowerCase(),
+                    resolvedVersion ? `${id}@${resolvedVersion}` : id,
+                );
+            }
+        } catch (error) {
+            console.error(`Error reading ${csprojPath}:`, error);
+        }
+
+        for (const [id, version] of await readPackagesLockJson(projectPath)) {
+            packages.set(id.toLowerCase(), `${id}@${version}`);
+        }
+
+        packageMap.set(projectPath, packages);
+    }
+
+    return packageMap;
+}
+
+const packageReferenceRegex =
+    /<PackageReference\b([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g;
+
+function parsePackageReferences(
+    csprojContent: string,
+): { id: string; version?: string }[] {
+    const references: { id: string; version?: string }[] = [];
+    let match;
+    while ((match = packageReferenceRegex.exec(csprojContent))) {
+        const attributes = match[1];
+        const children = match[2] ?? '';
+        const id = attributes.match(/\bInclude\s*=\s*"([^"]+)"/)?.[1];
+        if (!id) continue; // `Update=` items only tweak existing references
+
+        const version =
+            attributes.match(/\bVersion\s*=\s*"([^"]+)"/)?.[1] ??
+            children.match(/<Version>\s*([^<\s]+)\s*<\/Version>/)?.[1];
+        references.push({ id, version });
+    }
+    return references;
+}
+
+async function readPackagesLockJson(
+    projectPath: string,
+): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    const lockPath = path.join(projectPath, 'packages.lock.json');
+
+    let raw: string;
+    try {
+        raw = await fs.readFile(lockPath, 'utf8');
+    } catch {
+        return resolved; // Lock files are opt-in for NuGet
+    }
+
+    try {
+        const lock: {
+            dependencies?: Record<
+                string, // target framework, e.g. net8.0
+                Record<string, { type?: string; resolved?: string }>
+            >;
+        } = JSON.parse(raw);
+        for (const framework of Object.values(lock.dependencies ?? {})) {
+            for (const [id, details] of Object.entries(framework)) {
+                if (details.type !== 'Project' && details.resolved) {
+                    resolved.set(id, details.resolved);
+                }
+            }
+        }
+    } catch (error) {
+        console.error(`Failed to parse ${lockPath}:`, error);
+    }
+    return resolved;
+}
+
+/**
+ * Reads `<PackageVersion>` items of central package management files, keyed
+ * by the directory they apply to.
+ */
+async function readCentralPackageVersions(
+    propsPaths: string[],
+): Promise<Map<string, Map<string, string>>> {
+    const versionsByDir = new Map<string, Map<string, string>>();
+
+    for (const propsPath of propsPaths) {
+        const versions = new Map<string, string>();
+        try {
+            const content = await fs.readFile(propsPath, 'utf8');
+            const packageVersionRegex =
+                /<PackageVersion\b[^>]*\bInclude\s*=\s*"([^"]+)"[^>]*\bVersion\s*=\s*"([^"]+)"/g;
+            let match;
+            while ((match = packageVersionRegex.exec(content))) {
+                versions.set(match[1].toLowerCase(), match[2]);
+            }
+        } catch (error) {
+            console.error(`Error reading ${propsPath}:`, error);
+        }
+        versionsByDir.set(path.dirname(propsPath), versions);
+    }
+
+    return versionsByDir;
+}
+
+function findClosestCentralVersions(
+    projectPath: string,
+    centralPackageVersions: Map<string, Map<string, string>>,
+): Map<string, string> {
+    const dir = findProjectPath(
+        projectPath,
+        Array.from(centralPackageVersions.keys()),
+    );
+    return centralPackageVersions.get(dir) ?? new Map();
+}
+
+const csharpExcludedDirectories = ['bin', 'obj', '.vs', 'packages'];
+
+const csharpExcludedFilePatterns = [
+    '*.Designer.cs',
+    '*.g.cs',
+    '*.g.i.cs',
+    'AssemblyInfo.cs',
+];
+
+const csharpTestExclusions: ExclusionRules = {
+    directories: ['*.Tests', '*.UnitTests', '*.IntegrationTests'],
+    filePatterns: ['*Tests.cs', '*Test.cs'],
+};
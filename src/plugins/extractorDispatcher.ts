@@ -1,29 +1,51 @@
-import { LanguageExtractor } from '../types';
-import fs from 'fs/promises';
-import path from 'path';
-import { isIgnored } from './plugin.util';
-import { builtinPlugins } from './plugin-loader';
+import { ExclusionRules, LanguageExtractor, Plugin } from '../types';
+import { applyExclusionSettings } from './plugin.util';
+import { groupFilesByExtension } from './file-walker';
+import {
+    assignExtensions,
+    builtinPlugins,
+    validateExtractor,
+} from './plugin-loader';
+import {
+    createDefaultConfig,
+    createDefaultPluginSettings,
+    ImportFinderConfig,
+} from '../config';
 
 export async function groupFilesByExtractor(
     repoPath: string,
+    plugins: Plugin[] = builtinPlugins,
+    config: ImportFinderConfig = createDefaultConfig(),
 ): Promise<Map<LanguageExtractor, string[]>> {
-    const groupedFilesByExtensions = await groupFilesByExtension(repoPath);
+    const groupedFilesByExtensions = await groupFilesByExtension(
+        repoPath,
+        getGlobalExclusions(config),
+        config.files,
+        getGlobalExclusions(config, true),
+    );
     const extensions = Array.from(groupedFilesByExtensions.keys());
     const extractorToFilesMap = new Map<LanguageExtractor, string[]>();
 
     const handledExtensions = new Set<string>();
 
-    for (const plugin of builtinPlugins) {
-        if (plugin.extensions.some((ext) => extensions.includes(ext))) {
-            const extractor = await plugin.createExtractor(
-                groupedFilesByExtensions,
-            );
-            const files = plugin.extensions.flatMap(
-                (ext) => groupedFilesByExtensions.get(ext) ?? [],
-            );
-            extractorToFilesMap.set(extractor, files);
-            plugin.extensions.forEach((ext) => handledExtensions.add(ext));
-        }
+    for (const [plugin, pluginExtensions] of assignExtensions(
+        plugins,
+        extensions,
+    )) {
+        const settings =
+            config.pluginSettings[plugin.name] ?? createDefaultPluginSettings();
+        const extractor = validateExtractor(
+            await plugin.createExtractor(groupedFilesByExtensions, {
+                ...settings,
+                includeTests: settings.includeTests ?? config.includeTests,
+            }),
+            plugin,
+        );
+        const files = pluginExtensions.flatMap(
+            (ext) => groupedFilesByExtensions.get(ext) ?? [],
+        );
+        extractorToFilesMap.set(extractor, files);
+        pluginExtensions.forEach((ext) => handledExtensions.add(ext));
     }
 
     // Log unhandled extensions
@@ -41,40 +63,20 @@ export async function groupFilesByExtractor(
     return extractorToFilesMap;
 }
 
-async function groupFilesByExtension(
-    dirPath: string,
-): Promise<Map<string, string[]>> {
-    const groupedFiles = new Map<string, string[]>();
-
-    async function walk(currentPath: string) {
-        const entries = await fs.readdir(currentPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-            const fullPath = path.join(currentPath, entry.name);
-
-            if (isGloballyIgnored(fullPath)) continue;
-
-            if (entry.isDirectory()) {
-                await walk(fullPath);
-            } else {
-                const ext = path.extname(entry.name);
-                if (!groupedFiles.has(ext)) {
-                    groupedFiles.set(ext, []);
-                }
-                groupedFiles.get(ext)!.push(fullPath);
-            }
-        }
-    }
-
-    await walk(dirPath);
-    return groupedFiles;
-}
-
-export function isGloballyIgnored(file: string): boolean {
-    return isIgnored(
-        file,
-        globallyExcludedDirectories,
-        globallyExcludedFilePatterns,
+export function getGlobalExclusions(
+    config: ImportFinderConfig,
+    inRubyProject: boolean = false,
+): ExclusionRules {
+    return applyExclusionSettings(
+        {
+            // lib/ holds the sources of gems and Ruby apps
+            directories: inRubyProject
+                ? globallyExcludedDirectories.filter((dir) => dir !== 'lib')
+                : globallyExcludedDirectories,
+            filePatterns: globallyExcludedFilePatterns,
+        },
+        config,
+        globalTestExclusions,
     );
 }
 
@@ -92,11 +94,6 @@ const globallyExcludedDirectories: string[] = [
     '.classpath',
     '.project',
 
-    // Test directories (language-specific test files should be filtered later)
-    'src/test',
-    '__tests__',
-    '__mocks__',
-
     // Coverage and meta
     'jacoco',
     '.nyc_output',
@@ -132,7 +129,6 @@ const globallyExcludedFilePatterns: string[] = [
     '*.ear',
     '*.zip',
     '*.tar.gz',
-    '*.kts',
 
     // Logs, backups, tmp
     '*.log',
@@ -149,3 +145,9 @@ const globallyExcludedFilePatterns: string[] = [
     '*.svg',
     '*.sql',
 ];
+
+// Language-specific test files are filtered by the plugins
+const globalTestExclusions: ExclusionRules = {
+    directories: ['**/src/test', '__tests__', '__mocks__'],
+    filePatterns: [],
+};
@@ -0,0 +1,286 @@
+import fs from 'fs/promises';
+import { Dirent } from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { ExclusionRules } from '../types';
+import { FileSelection } from '../config';
+import { isIgnored, logIgnoredFile, matchIgnoreRules } from './plugin.util';
+
+// Ignore file of this tool, with the .gitignore syntax
+export const toolIgnoreFileName = '.importfinderignore';
+
+// The rules of an ignore file, relative to the directory it applies to
+type IgnoreFile = {
+    baseDir: string;
+    source: string; // path shown by --explain-ignored
+    rules: ExclusionRules;
+};
+
+/**
+ * Lists the files to analyze, grouped by extension. Directories and files
+ * matching the exclusions or ignore files are skipped, and symlinked
+ * directories are followed unless they lead to a directory already walked.
+ * Below a Ruby project (a Gemfile or a gemspec), `rubyProjectExclusions`
+ * apply instead of `exclusions`.
+ */
+export async function groupFilesByExtension(
+    repoPath: string,
+    exclusions: ExclusionRules,
+    files: FileSelection,
+    rubyProjectExclusions: ExclusionRules = exclusions,
+): Promise<Map<string, string[]>> {
+    const groupedFiles = new Map<string, string[]>();
+    const getIgnoreFiles = await createIgnoreFilesLoader(repoPath, files);
+    const trackedPaths =
+        files === 'tracked' ? listTrackedPaths(repoPath) : null;
+    const walkedDirectories = new Set([await fs.realpath(repoPath)]);
+
+    async function walk(currentPath: string, exclusions: ExclusionRules) {
+        const entries = await fs.readdir(currentPath, { withFileTypes: true });
+        const ignoreFiles = await getIgnoreFiles(currentPath);
+        if (entries.some(isRubyProjectFile)) {
+            exclusions = rubyProjectExclusions;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(currentPath, entry.name);
+            if (trackedPaths && !trackedPaths.has(fullPath)) {
+                continue;
+            }
+
+            const isDirectory = await isDirectoryEntry(entry, fullPath);
+            if (isDirectory === null) {
+                continue; // broken symlink
+            }
+            // A trailing separator lets directory-only rules match
+            if (
+                isIgnored(
+                    isDirectory ? fullPath + path.sep : fullPath,
+                    repoPath,
+                    exclusions,
+                ) ||
+                isExcludedByIgnoreFiles(
+                    fullPath,
+                    isDirectory,
+                    ignoreFiles,
+                    repoPath,
+                )
+            ) {
+                continue;
+            }
+
+            if (isDirectory) {
+                const realPath = await fs.realpath(fullPath);
+                if (walkedDirectories.has(realPath)) {
+                    console.warn(
+                        `Skipping ${path.relative(repoPath, fullPath)}: it links to ${realPath}, which is already walked`,
+                    );
+                    continue;
+                }
+                walkedDirectories.add(realPath);
+                await walk(fullPath, exclusions);
+            } else {
+                const ext = path.extname(entry.name);
+                if (!groupedFiles.has(ext)) {
+                    groupedFiles.set(ext, []);
+                }
+                groupedFiles.get(ext)!.push(fullPath);
+            }
+        }
+    }
+
+    await walk(repoPath, exclusions);
+    return groupedFiles;
+}
+
+function isRubyProjectFile(entry: Dirent): boolean {
+    return (
+        !entry.isDirectory() &&
+        (entry.name === 'Gemfile' || entry.name.endsWith('.gemspec'))
+    );
+}
+
+// Symlinks are resolved: null when broken
+async function isDirectoryEntry(
+    entry: Dirent,
+    fullPath: string,
+): Promise<boolean | null> {
+    if (!entry.isSymbolicLink()) {
+        return entry.isDirectory();
+    }
+    try {
+        return (await fs.stat(fullPath)).isDirectory();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The files in the git index, with their parent directories, so the walk
+ * only enters directories holding tracked files.
+ */
+function listTrackedPaths(repoPath: string): Set<string> {
+    let output: string;
+    try {
+        output = execFileSync('git', ['ls-files', '-z', '--cached'], {
+            cwd: repoPath,
+            encoding: 'utf-8',
+            maxBuffer: 1024 * 1024 * 1024,
+            stdio: ['ignore', 'pipe', 'pipe'],
+        });
+    } catch (error) {
+        throw new Error(
+            `Failed to list the files tracked by git in ${repoPath}: ${error instanceof Error ? error.message : error}`,
+        );
+    }
+
+    const trackedPaths = new Set<string>();
+    for (const trackedFile of output.split('\0').filter(Boolean)) {
+        const segments = trackedFile.split('/');
+        for (let i = 1; i <= segments.length; i++) {
+            trackedPaths.add(path.join(repoPath, ...segments.slice(0, i)));
+        }
+    }
+    return trackedPaths;
+}
+
+/**
+ * Whether the ignore files of a directory exclude one of its entries. Like
+ * git, the deepest ignore files take precedence, then the last matching
+ * rule, so a nested `!` rule can re-include an entry.
+ */
+function isExcludedByIgnoreFiles(
+    fullPath: string,
+    isDirectory: boolean,
+    ignoreFiles: IgnoreFile[],
+    repoPath: string,
+): boolean {
+    for (let i = ignoreFiles.length - 1; i >= 0; i--) {
+        const { baseDir, source, rules } = ignoreFiles[i];
+        const match = matchIgnoreRules(
+            path.relative(baseDir, fullPath).split(path.sep).join('/'),
+            isDirectory,
+            rules,
+        );
+        if (match) {
+            if (!match.negated) {
+                logIgnoredFile(fullPath, repoPath, match.rule, source);
+            }
+            return !match.negated;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns a function listing the ignore files applying to the entries of a
+ * directory, from the lowest to the highest precedence: `.git/info/exclude`,
+ * then the .gitignore and `.importfinderignore` files of each directory from
+ * the root of the git working tree down. Only `.importfinderignore` files
+ * apply unless `files` is `gitignore`.
+ */
+async function createIgnoreFilesLoader(
+    repoPath: string,
+    files: FileSelection,
+): Promise<(dir: string) => Promise<IgnoreFile[]>> {
+    const ignoreFileNames =
+        files === 'gitignore'
+            ? ['.gitignore', toolIgnoreFileName]
+            : [toolIgnoreFileName];
+    const gitRepository =
+        files === 'gitignore' ? await findGitRepository(repoPath) : null;
+    const rootDir = gitRepository?.workTree ?? path.resolve(repoPath);
+
+    const rootIgnoreFiles: IgnoreFile[] = [];
+    if (gitRepository) {
+        const excludeFile = await readIgnoreFile(
+            path.join(gitRepository.gitDir, 'info', 'exclude'),
+            rootDir,
+            repoPath,
+        );
+        if (excludeFile) rootIgnoreFiles.push(excludeFile);
+    }
+
+    const ignoreFilesByDir = new Map<string, Promise<IgnoreFile[]>>();
+    const getIgnoreFiles = (dir: string): Promise<IgnoreFile[]> => {
+        dir = path.resolve(dir);
+        let ignoreFiles = ignoreFilesByDir.get(dir);
+        if (!ignoreFiles) {
+            ignoreFiles = (async () => {
+                const inherited =
+                    dir === rootDir || dir === path.dirname(dir)
+                        ? rootIgnoreFiles
+                        : await getIgnoreFiles(path.dirname(dir));
+                const own = await Promise.all(
+                    ignoreFileNames.map((name) =>
+                        readIgnoreFile(path.join(dir, name), dir, repoPath),
+                    ),
+                );
+                return [
+                    ...inherited,
+                    ...own.filter((file): file is IgnoreFile => file !== null),
+                ];
+            })();
+            ignoreFilesByDir.set(dir, ignoreFiles);
+        }
+        return ignoreFiles;
+    };
+    return getIgnoreFiles;
+}
+
+async function readIgnoreFile(
+    filePath: string,
+    baseDir: string,
+    repoPath: string,
+): Promise<IgnoreFile | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+    return {
+        baseDir,
+        source: path.relative(repoPath, filePath),
+        rules: { directories: [], filePatterns: content.split(/\r?\n/) },
+    };
+}
+
+/**
+ * Finds the git working tree containing a directory, and its git directory,
+ * which a `.git` file points to in worktrees and submodules.
+ */
+async function findGitRepository(
+    dir: string,
+): Promise<{ workTree: string; gitDir: string } | null> {
+    let currentDir = path.resolve(dir);
+    while (true) {
+        const dotGit = path.join(currentDir, '.git');
+        try {
+            const stats = await fs.stat(dotGit);
+            if (stats.isDirectory()) {
+                return { workTree: currentDir, gitDir: dotGit };
+            }
+            const gitDir = path.resolve(
+                currentDir,
+                (await fs.readFile(dotGit, 'utf8'))
+                    .replace(/^gitdir:/, '')
+                    .trim(),
+            );
+            // Worktrees share info/exclude with the main repository
+            const commonDir = await fs
+                .readFile(path.join(gitDir, 'commondir'), 'utf8')
+                .then((content) => path.resolve(gitDir, content.trim()))
+                .catch(() => gitDir);
+            return { workTree: currentDir, gitDir: commonDir };
+        } catch {
+            // No .git here
+        }
+
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) {
+            return null;
+        }
+        currentDir = parentDir;
+    }
+}
@@ -0,0 +1,354 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const goPlugin: Plugin = {
+    name: 'go',
+    extensions: ['.go'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const goModFiles = (groupedFilesByExtensions.get('.mod') ?? []).filter(
+        (file) => path.basename(file) === 'go.mod',
+    );
+    const goModules = await parseGoModules(goModFiles);
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: goExcludedDirectories,
+            filePatterns: goExcludedFilePatterns,
+        },
+        settings,
+        goTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'go'),
+        async extractImports(filePath: string, repoPath: string) {
+            // Files outside every module are resolved from the repo root
+            const projectPath =
+                findProjectPath(filePath, Array.from(goModules.keys())) ||
+                repoPath;
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath,
+                settings.localImportPrefixes,
+                // Without a go.mod, no library can be resolved
+                goModules.get(projectPath) ?? {
+                    modulePath: '',
+                    requires: new Map(),
+                    replaces: new Map(),
+                    sums: new Map(),
+                },
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    localImportPrefixes: string[],
+    goModule: GoModule,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const importStatements: ImportStatement[] = [];
+        for (const { name, importPath, spec } of parseImportSpecs(
+            fileContent,
+        )) {
+            if (
+                isLocalImport(importPath, goModule, localImportPrefixes) ||
+                isGoStdlib(importPath)
+            ) {
+                continue;
+            }
+
+            const modifiers: string[] = [];
+            if (name === '.') {
+                modifiers.push('dot', 'wildcard');
+            } else if (name === '_') {
+                modifiers.push('blank');
+            } else if (name) {
+                modifiers.push(`alias ${name}`);
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: getPackageName(importPath),
+                modifiers: modifiers,
+                language: getLanguageByExtension(extension),
+                library: resolveLibrary(importPath, goModule),
+                fullImport: `import ${spec}`,
+            });
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+type ImportSpec = {
+    name?: string; // alias, '.' or '_'
+    importPath: string;
+    spec: string;
+};
+
+const importSpecRegex = /^(?:([\w.]+)\s+)?(?:"([^"]+)"|`([^`]+)`)$/;
+
+/**
+ * Reads both `import "fmt"` declarations and grouped `import ( ... )` blocks.
+ * Only the file header is scanned, since Go does not allow imports after the
+ * first top-level declaration.
+ */
+function parseImportSpecs(source: string): ImportSpec[] {
+    const code = stripComments(source);
+    const headerEnd = code.search(/^(?:func|type|var|const)\b/m);
+    const header = headerEnd === -1 ? code : code.slice(0, headerEnd);
+
+    const specs: string[] = [];
+    const importDeclRegex = /\bimport\s*(?:\(([^)]*)\)|([^\n;]+))/g;
+    let match;
+    while ((match = importDeclRegex.exec(header))) {
+        if (match[1] !== undefined) {
+            specs.push(...match[1].split(/[\n;]/));
+        } else {
+            specs.push(match[2]);
+        }
+    }
+
+    return specs
+        .map((spec) => spec.trim().replace(/\s+/g, ' '))
+        .map((spec) => ({ spec, match: spec.match(importSpecRegex) }))
+        .filter(({ match }) => match !== null)
+        .map(({ spec, match }) => ({
+            name: match![1],
+            importPath: match![2] ?? match![3],
+            spec,
+        }));
+}
+
+// Removes comments but keeps string literals and line breaks intact
+function stripComments(source: string): string {
+    return source.replace(
+        /("(?:\\.|[^"\\\n])*"|`[^`]*`)|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+        (whole, literal) => literal ?? whole.replace(/[^\n]/g, ''),
+    );
+}
+
+/**
+ * Returns the identifier a package is referred to by default, skipping major
+ * version suffixes such as `github.com/go-chi/chi/v5` ➝ `chi`.
+ */
+function getPackageName(importPath: string): string {
+    const parts = importPath.split('/');
+    const last = parts.at(-1) ?? importPath;
+    if (/^v\d+$/.test(last) && parts.length > 1) {
+        return parts.at(-2)!;
+    }
+    return last;
+}
+
+function resolveLibrary(importPath: string, goModule: GoModule): string {
+    const required = findLongestModule(importPath, goModule.requires);
+    if (required) {
+        const [modulePath, version] = required;
+        const replacement = goModule.replaces.get(modulePath);
+        if (replacement?.version) {
+            return `${replacement.path}@${replacement.version}`;
+        }
+        return `${modulePath}@${version}`;
+    }
+
+    // Transitive packages missing from older go.mod files are still in go.sum
+    const summed = findLongestModule(importPath, goModule.sums);
+    if (summed) {
+        return `${summed[0]}@${summed[1]}`;
+    }
+
+    return 'No match found in go.mod';
+}
+
+function findLongestModule(
+    importPath: string,
+    modules: Map<string, string>,
+): [string, string] | null {
+    let bestMatch: [string, string] | null = null;
+    for (const [modulePath, version] of modules.entries()) {
+        if (
+            (importPath === modulePath ||
+                importPath.startsWith(`${modulePath}/`)) &&
+            (!bestMatch || modulePath.length > bestMatch[0].length)
+        ) {
+            bestMatch = [modulePath, version];
+        }
+    }
+    return bestMatch;
+}
+
+function isLocalImport(
+    importPath: string,
+    goModule: GoModule,
+    localImportPrefixes: string[],
+): boolean {
+    if (
+        [goModule.modulePath, ...localImportPrefixes].some(
+            (prefix) =>
+                importPath === prefix || importPath.startsWith(`${prefix}/`),
+        )
+    ) {
+        return true;
+    }
+
+    // Modules replaced by a directory on disk are part of the same checkout
+    const required = findLongestModule(importPath, goModule.requires);
+    const replacement = required && goModule.replaces.get(required[0]);
+    return !!replacement && !replacement.version;
+}
+
+/**
+ * Standard library import paths never contain a dot in their first element,
+ * while every module fetched by the go command must (e.g. `github.com/...`).
+ */
+export function isGoStdlib(importPath: string): boolean {
+    return !importPath.split('/')[0].includes('.');
+}
+
+type GoModule = {
+    modulePath: string;
+    requires: Map<string, string>; // module path ➝ version
+    replaces: Map<string, { path: string; version?: string }>;
+    sums: Map<string, string>; // module path ➝ version from go.sum
+};
+
+async function parseGoModules(
+    goModPaths: string[],
+): Promise<Map<string, GoModule>> {
+    const goModules = new Map<string, GoModule>(); // project path ➝ GoModule
+
+    for (const goModPath of goModPaths) {
+        const projectPath = path.dirname(goModPath);
+        try {
+            const goMod = parseGoMod(await fs.readFile(goModPath, 'utf8'));
+            goMod.sums = await parseGoSum(path.join(projectPath, 'go.sum'));
+            goModules.set(projectPath, goMod);
+        } catch (error) {
+            console.error(`Error reading ${goModPath}:`, error);
+        }
+    }
+
+    return goModules;
+}
+
+function parseGoMod(content: string): GoModule {
+    const goModule: GoModule = {
+        modulePath: '',
+        requires: new Map(),
+        replaces: new Map(),
+        sums: new Map(),
+    };
+
+    let block: string | null = null;
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+        if (!line) continue;
+
+        if (block) {
+            if (line === ')') {
+                block = null;
+            } else {
+                applyGoModDirective(goModule, block, line);
+            }
+            continue;
+        }
+
+        const match = line.match(/^(\w+)\s*(\(?)\s*(.*)$/);
+        if (!match) continue;
+        if (match[2] === '(') {
+            block = match[1];
+        } else {
+            applyGoModDirective(goModule, match[1], match[3]);
+        }
+    }
+
+    return goModule;
+}
+
+function applyGoModDirective(
+    goModule: GoModule,
+    directive: string,
+    args: string,
+) {
+    const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+    if (directive === 'module') {
+        goModule.modulePath = unquote(args.trim());
+    } else if (directive === 'require') {
+        const [modulePath, version] = args.split(/\s+/).map(unquote);
+        if (modulePath && version) {
+            goModule.requires.set(modulePath, version);
+        }
+    } else if (directive === 'replace') {
+        const [from, to] = args.split('=>').map((side) => side.trim());
+        if (!from || !to) return;
+        const [fromPath] = from.split(/\s+/).map(unquote);
+        const [toPath, toVersion] = to.split(/\s+/).map(unquote);
+        goModule.replaces.set(fromPath, { path: toPath, version: toVersion });
+    }
+}
+
+async function parseGoSum(goSumPath: string): Promise<Map<string, string>> {
+    const sums = new Map<string, string>();
+    try {
+        const content = await fs.readFile(goSumPath, 'utf8');
+        for (const line of content.split('\n')) {
+            const [modulePath, version] = line.trim().split(/\s+/);
+            // `<version>/go.mod` lines only hash the go.mod of that version
+            if (modulePath && version && !version.endsWith('/go.mod')) {
+                sums.set(modulePath, version);
+            }
+        }
+    } catch {
+        // go.sum is optional, e.g. for modules without dependencies
+    }
+    return sums;
+}
+
+const goExcludedDirectories = ['vendor'];
+
+const goExcludedFilePatterns = ['go.mod', 'go.sum', 'go.work'];
+
+const goTestExclusions: ExclusionRules = {
+    directories: ['testdata'],
+    filePatterns: ['*_test.go'],
+};
@@ -0,0 +1,204 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DeclaredArtifact } from './maven.util';
+
+const gradleBuildFileNames = [
+    'build.gradle',
+    'build.gradle.kts',
+    'settings.gradle',
+    'settings.gradle.kts',
+];
+
+/**
+ * Returns every directory that holds a Gradle build or settings script. Unlike
+ * Maven, where only root poms are analyzed, each Gradle (sub)project keeps its
+ * own `build/libs` output and `gradle.lockfile`, so each one is a project.
+ */
+export function findGradleProjectPathsFromFiles(
+    buildScriptPaths: string[],
+): string[] {
+    const projectPaths = buildScriptPaths
+        .map((p) => path.normalize(p))
+        .filter((p) => gradleBuildFileNames.includes(path.basename(p)))
+        .map((p) => path.dirname(p));
+
+    return Array.from(new Set(projectPaths));
+}
+
+const gradleGroupRegex = /^\s*(?:project\.)?group\s*=?\s*['"]([\w.-]+)['"]/m;
+
+/**
+ * Reads the `group` of a Gradle project from its build script, falling back
+ * to `gradle.properties` and then to the closest ancestor project that sets it
+ * (commonly done once in an `allprojects { }` block of the root build).
+ */
+export async function findGradleGroupId(
+    projectPath: string,
+    projectPaths: string[],
+): Promise<string | null> {
+    let currentDir = projectPath;
+    while (true) {
+        if (currentDir === projectPath || projectPaths.includes(currentDir)) {
+            const groupId = await readGradleGroupId(currentDir);
+            if (groupId) {
+                return groupId;
+            }
+        }
+
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) {
+            break; // Reached filesystem root
+        }
+        currentDir = parentDir;
+    }
+
+    console.warn(`No group found for Gradle project ${projectPath}`);
+    return null;
+}
+
+async function readGradleGroupId(projectPath: string): Promise<string | null> {
+    for (const fileName of ['build.gradle', 'build.gradle.kts']) {
+        const content = await readFileIfExists(
+            path.join(projectPath, fileName),
+        );
+        const match = content?.match(gradleGroupRegex);
+        if (match) {
+            return match[1];
+        }
+    }
+
+    const properties = await readFileIfExists(
+        path.join(projectPath, 'gradle.properties'),
+    );
+    const match = properties?.match(/^\s*group\s*[=:]\s*([\w.-]+)\s*$/m);
+    return match ? match[1] : null;
+}
+
+/**
+ * Reads the resolved dependencies of a Gradle project from its dependency
+ * lock state: `gradle.lockfile` (Gradle 6+) or the legacy per-configuration
+ * files in `gradle/dependency-locks/`. Lockfiles of ancestor projects are
+ * used when the project has none of its own.
+ */
+export async function readGradleLockfiles(
+    projectPath: string,
+    lockfilePaths: string[],
+): Promise<DeclaredArtifact[]> {
+    let currentDir = projectPath;
+    while (true) {
+        const ownLockfiles = lockfilePaths.filter(
+            (lockfile) =>
+                lockfile === path.join(currentDir, 'gradle.lockfile') ||
+                path.dirname(lockfile) ===
+                    path.join(currentDir, 'gradle', 'dependency-locks'),
+        );
+        if (ownLockfiles.length > 0) {
+            const artifacts = new Map<string, DeclaredArtifact>();
+            for (const lockfile of ownLockfiles) {
+                const content = (await readFileIfExists(lockfile)) ?? '';
+                for (const artifact of parseGradleLockfile(content)) {
+                    artifacts.set(
+                        `${artifact.groupId}:${artifact.artifactId}`,
+                        artifact,
+                    );
+                }
+            }
+            return Array.from(artifacts.values());
+        }
+
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) {
+            return [];
+        }
+        currentDir = parentDir;
+    }
+}
+
+// com.google.guava:guava:32.1.2-jre=compileClasspath,runtimeClasspath
+const gradleLockLineRegex = /^([\w.-]+):([\w.-]+):([^=\s]+)(?:=.*)?$/;
+
+function parseGradleLockfile(content: string): DeclaredArtifact[] {
+    return content
+        .split('\n')
+        .map((line) => line.trim().match(gradleLockLineRegex))
+        .filter((match) => match !== null)
+        .map((match) => ({
+            groupId: match[1],
+            artifactId: match[2],
+            version: match[3],
+        }));
+}
+
+/**
+ * Finds the built JAR of a Gradle project in `build/libs`, ignoring the
+ * sources/javadoc JARs and the `-plain` JAR Spring Boot builds next to the
+ * executable one.
+ */
+export async function findGradleProjectJar(
+    projectPath: string,
+): Promise<string | null> {
+    try {
+        const files = await fs.readdir(path.join(projectPath, 'build', 'libs'));
+        const jars = files.filter(
+            (file) =>
+                file.endsWith('.jar') &&
+                !file.includes('-sources') &&
+                !file.includes('-javadoc') &&
+                !file.endsWith('-plain.jar'),
+        );
+        return jars.length > 0 ? path.join('build', 'libs', jars[0]) : null;
+    } catch {
+        return null; // No build output
+    }
+}
+
+/**
+ * Locates the JARs of the given artifacts in the Gradle module cache, so the
+ * classpath can be rebuilt without running Gradle itself.
+ */
+export async function findGradleCachedJars(
+    artifacts: DeclaredArtifact[],
+): Promise<Map<DeclaredArtifact, string>> {
+    const gradleHome =
+        process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), '.gradle');
+    const cacheDir = path.join(gradleHome, 'caches', 'modules-2', 'files-2.1');
+    const jars = new Map<DeclaredArtifact, string>();
+
+    for (const artifact of artifacts) {
+        const { groupId, artifactId, version } = artifact;
+        const versionDir = path.join(cacheDir, groupId, artifactId, version);
+        const jarName = `${artifactId}-${version}.jar`;
+        try {
+            // Each file sits in a directory named after its SHA-1 hash
+            for (const hashDir of await fs.readdir(versionDir)) {
+                const candidate = path.join(versionDir, hashDir, jarName);
+                if (await fileExists(candidate)) {
+                    jars.set(artifact, candidate);
+                    break;
+                }
+            }
+        } catch {
+            // Not downloaded yet
+        }
+    }
+
+    return jars;
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -1,106 +1,385 @@
 import * as fs from 'fs/promises';
 import path from 'path';
-import { ImportStatement, LanguageExtractor, Plugin } from '../types';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+    UsageStatement,
+} from '../types';
 import { execSync } from 'child_process';
+import { CstNode, IToken, parse } from 'java-parser';
 import {
+    applyExclusionSettings,
     findProjectPath,
     getLanguageByExtension,
     getRelativePathToRepo,
     isIgnored,
 } from './plugin.util';
+import {
+    DeclaredArtifact,
+    findMavenRepositoryJars,
+    listJarClasses,
+    resolveMavenDependencies,
+} from './maven.util';
+import {
+    findGradleCachedJars,
+    findGradleGroupId,
+    findGradleProjectJar,
+    findGradleProjectPathsFromFiles,
+    readGradleLockfiles,
+} from './gradle.util';
 
 export const javaPlugin: Plugin = {
+    name: 'java',
     extensions: ['.java'],
     createExtractor,
 };
 
 async function createExtractor(
     groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
 ): Promise<LanguageExtractor> {
-    const rootPomXmlPaths = findRootPomXmlPathsFromFiles(
-        groupedFilesByExtensions.get('.xml') ?? [],
+    const { groupIds, importedClassToJarMaps, declaredArtifacts } =
+        await analyzeJvmProjects(groupedFilesByExtensions);
+    const localPackages = [...groupIds, ...settings.localImportPrefixes];
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: javaExcludedDirectories,
+            filePatterns: javaExcludedFilePatterns,
+        },
+        settings,
+        javaTestExclusions,
     );
-    const [groupIds, importedClassToJarMaps] = await Promise.all([
-        findGroupIds(rootPomXmlPaths),
-        generateImportedClassToJarMaps(rootPomXmlPaths),
-    ]);
 
     return {
-        isIgnored: (file: string) =>
-            isIgnored(file, javaExcludedDirectories, javaExcludedFilePatterns),
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'java'),
         async extractImports(filePath: string, repoPath: string) {
-            const projectPath = findProjectPath(
+            // Files outside every Maven/Gradle project are resolved from
+            // the repo root, where no jar is known
+            const projectPath =
+                findProjectPath(
+                    filePath,
+                    Array.from(importedClassToJarMaps.keys()),
+                ) || repoPath;
+
+            return await extractImports(
                 filePath,
-                Array.from(importedClassToJarMaps.keys()),
+                repoPath,
+                projectPath,
+                localPackages,
+                importedClassToJarMaps.get(projectPath) ?? new Map(),
+                declaredArtifacts.get(projectPath),
             );
+        },
+        async extractUsages(filePath: string, repoPath: string) {
+            const projectPath =
+                findProjectPath(
+                    filePath,
+                    Array.from(importedClassToJarMaps.keys()),
+                ) || repoPath;
 
-            return await extractImports(
+            return await extractUsages(
                 filePath,
                 repoPath,
                 projectPath,
-                groupIds,
-                importedClassToJarMaps.get(projectPath),
+                localPackages,
+                importedClassToJarMaps.get(projectPath) ?? new Map(),
+                declaredArtifacts.get(projectPath),
             );
         },
     };
 }
 
+export type JvmProjectsAnalysis = {
+    groupIds: string[];
+    importedClassToJarMaps: ImportedClassMetadataMapByProject;
+    declaredArtifacts: Map<string, DeclaredArtifact[]>; // project path ➝ locked dependencies
+};
+
+const jvmProjectsAnalyses = new WeakMap<
+    Map<string, string[]>,
+    Promise<JvmProjectsAnalysis>
+>();
+
+/**
+ * Finds the Maven and Gradle projects of the repository and analyzes their
+ * dependencies. Java and Kotlin sources share the same projects and build
+ * output, so the (slow) analysis runs once per repository and is shared by
+ * every JVM language plugin.
+ */
+export function analyzeJvmProjects(
+    groupedFilesByExtensions: Map<string, string[]>,
+): Promise<JvmProjectsAnalysis> {
+    let analysis = jvmProjectsAnalyses.get(groupedFilesByExtensions);
+    if (!analysis) {
+        analysis = runJvmProjectsAnalysis(groupedFilesByExtensions);
+        jvmProjectsAnalyses.set(groupedFilesByExtensions, analysis);
+    }
+    return analysis;
+}
+
+async function runJvmProjectsAnalysis(
+    groupedFilesByExtensions: Map<string, string[]>,
+): Promise<JvmProjectsAnalysis> {
+    const rootPomXmlPaths = findRootPomXmlPathsFromFiles(
+        groupedFilesByExtensions.get('.xml') ?? [],
+    );
+    const gradleProjectPaths = findGradleProjectPathsFromFiles([
+        ...(groupedFilesByExtensions.get('.gradle') ?? []),
+        ...(groupedFilesByExtensions.get('.kts') ?? []),
+    ]);
+    const [mavenGroupIds, mavenProjects, gradleProjects] = await Promise.all([
+        findGroupIds(rootPomXmlPaths),
+        generateImportedClassToJarMaps(rootPomXmlPaths),
+        analyzeGradleProjects(
+            gradleProjectPaths,
+            groupedFilesByExtensions.get('.lockfile') ?? [],
+        ),
+    ]);
+
+    return {
+        groupIds: Array.from(
+            new Set([...mavenGroupIds, ...gradleProjects.groupIds]),
+        ),
+        importedClassToJarMaps: new Map([
+            ...mavenProjects.importedClassToJarMaps,
+            ...gradleProjects.importedClassToJarMaps,
+        ]),
+        declaredArtifacts: new Map([
+            ...mavenProjects.declaredArtifacts,
+            ...gradleProjects.declaredArtifacts,
+        ]),
+    };
+}
+
 async function extractImports(
     filePath: string,
     repoPath: string,
     projectPath: string,
     groupIds: string[],
-    importedClassToJarMap?: Map<string, ImportedClassMetadata>,
+    importedClassToJarMap: Map<string, ImportedClassMetadata>,
+    declaredArtifacts: DeclaredArtifact[] = [],
 ): Promise<ImportStatement[]> {
-    if (!importedClassToJarMap) {
-        throw new Error(
-            `Error finding importedClassToJar map for this project: ${projectPath}`,
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const importStatements: ImportStatement[] = [];
+        const { imports, requiredModules, qualifiedReferences } =
+            parseJavaSource(fileContent);
+
+        for (const { importedClass, isStatic, isWildcard } of imports) {
+            if (isLocalImport(importedClass, groupIds)) {
+                continue;
+            }
+
+            const { library, importedEntity } = getLibraryAndImportedEntity(
+                importedClass,
+                isStatic,
+                isWildcard,
+                importedClassToJarMap,
+                declaredArtifacts,
+            );
+
+            if (isJdkModule(library)) {
+                continue;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: importedEntity,
+                modifiers: [
+                    isStatic && 'static',
+                    isWildcard && 'wildcard',
+                ].filter(Boolean) as string[],
+                language: getLanguageByExtension(extension),
+                library: library,
+                fullImport: `import ${isStatic ? 'static ' : ''}${importedClass}${isWildcard ? '.*' : ''};`,
+            });
+        }
+
+        // module-info.java: `requires com.google.common;` depends on a whole module
+        for (const { moduleName, modifiers } of requiredModules) {
+            if (
+                isJdkModule(moduleName) ||
+                isLocalImport(moduleName, groupIds)
+            ) {
+                continue;
+            }
+
+            const { library } = getLibraryAndImportedEntity(
+                moduleName,
+                false,
+                true,
+                importedClassToJarMap,
+                declaredArtifacts,
+            );
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: moduleName,
+                modifiers: ['requires', ...modifiers],
+                language: getLanguageByExtension(extension),
+                library: library,
+                fullImport: `requires ${[...modifiers, moduleName].join(' ')};`,
+            });
+        }
+
+        // Types used with their fully qualified name need no import, e.g.
+        // `new com.google.common.collect.ImmutableList.Builder<>()`
+        const importedClasses = new Set(
+            imports.map(({ importedClass }) => importedClass),
         );
+        for (const qualifiedClass of qualifiedReferences) {
+            if (
+                importedClasses.has(qualifiedClass) ||
+                isLocalImport(qualifiedClass, groupIds)
+            ) {
+                continue;
+            }
+
+            const { library, importedEntity } = getLibraryAndImportedEntity(
+                qualifiedClass,
+                false,
+                false,
+                importedClassToJarMap,
+                declaredArtifacts,
+            );
+
+            if (isJdkModule(library)) {
+                continue;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: importedEntity,
+                modifiers: ['fully qualified'],
+                language: getLanguageByExtension(extension),
+                library: library,
+                fullImport: qualifiedClass,
+            });
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
     }
+}
 
+/**
+ * Finds the references to imported types and their static members in the
+ * body of a Java file. Types imported through a wildcard (`import
+ * org.apache.commons.lang3.*;`) are resolved to the concrete class using the
+ * classes that jdeps found in the project's dependencies. Each usage is
+ * reported with the class as its symbol (`StringUtils`), or the class and the
+ * member for static methods and fields (`StringUtils.isBlank`).
+ *
+ * Members brought in by a static wildcard import (`import static
+ * org.junit.Assert.*;`) are not matched, as they cannot be told apart from the
+ * methods of the class itself without reading the imported class.
+ */
+async function extractUsages(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    groupIds: string[],
+    importedClassToJarMap: Map<string, ImportedClassMetadata>,
+    declaredArtifacts: DeclaredArtifact[] = [],
+): Promise<UsageStatement[]> {
     try {
         const relativePath = getRelativePathToRepo(repoPath, filePath);
         const extension = filePath.slice(filePath.lastIndexOf('.'));
         const fileContent = await fs.readFile(filePath, 'utf8');
 
-        const importStatements: ImportStatement[] = [];
-        const importRegex = /^\s*import\s+(static\s+)?([\w.]+)(\.\*)?;\s*$/gm;
-        let match;
-        while ((match = importRegex.exec(fileContent))) {
-            const importedClass = match[2];
-
-            if (!isLocalImport(importedClass, groupIds)) {
-                const isStatic = match[1] !== undefined;
-                const isWildcard = match[3] !== undefined;
-                const alias = match[4];
-                const { library, importedEntity } = getLibraryAndImportedEntity(
+        const { imports, references } = parseJavaSource(fileContent);
+        const importedTypes = new Map<string, string>(); // simple name ➝ class
+        const staticMembers = new Map<string, string>(); // member ➝ class
+        const wildcardPackages: string[] = [];
+        for (const { importedClass, isStatic, isWildcard } of imports) {
+            const lastDotIndex = importedClass.lastIndexOf('.');
+            if (isStatic && !isWildcard) {
+                staticMembers.set(
+                    importedClass.slice(lastDotIndex + 1),
+                    importedClass.slice(0, lastDotIndex),
+                );
+            } else if (!isStatic && isWildcard) {
+                wildcardPackages.push(importedClass);
+            } else if (!isStatic) {
+                importedTypes.set(
+                    importedClass.slice(lastDotIndex + 1),
                     importedClass,
-                    isStatic,
-                    isWildcard,
-                    importedClassToJarMap,
                 );
+            }
+        }
 
-                if (isJdkModule(library)) {
-                    continue;
-                }
+        const resolveType = (simpleName: string) =>
+            importedTypes.get(simpleName) ??
+            wildcardPackages
+                .map((packageName) => `${packageName}.${simpleName}`)
+                .find((candidate) => importedClassToJarMap.has(candidate));
 
-                importStatements.push({
-                    file: relativePath,
-                    projectPath: projectPath,
-                    importedEntity: importedEntity,
-                    modifiers: [
-                        isStatic && 'static',
-                        alias && `alias ${alias}`,
-                        isWildcard && 'wildcard',
-                    ].filter(Boolean) as string[],
-                    language: getLanguageByExtension(extension),
-                    library: library,
-                    fullImport: match[0].trim(),
-                });
+        const usageStatements: UsageStatement[] = [];
+        for (const { identifiers, line } of references) {
+            // [Class, member?], e.g. [StringUtils, isBlank] or [Lists]
+            let usedClass: string | undefined;
+            let symbolParts: string[];
+
+            const qualifiedClass = getQualifiedClassName(identifiers);
+            if (qualifiedClass) {
+                usedClass = qualifiedClass;
+                symbolParts = identifiers.slice(
+                    qualifiedClass.split('.').length - 1,
+                );
+            } else if (
+                identifiers.length === 1 &&
+                staticMembers.has(identifiers[0])
+            ) {
+                usedClass = staticMembers.get(identifiers[0])!;
+                symbolParts = [usedClass.split('.').at(-1)!, identifiers[0]];
+            } else {
+                usedClass = resolveType(identifiers[0]);
+                symbolParts = identifiers;
+            }
+
+            if (!usedClass || isLocalImport(usedClass, groupIds)) {
+                continue;
             }
+
+            const { library } = getLibraryAndImportedEntity(
+                usedClass,
+                false,
+                false,
+                importedClassToJarMap,
+                declaredArtifacts,
+            );
+
+            if (isJdkModule(library) || isJdkModule(usedClass)) {
+                continue;
+            }
+
+            usageStatements.push({
+                file: relativePath,
+                line: line,
+                projectPath: projectPath,
+                library: library,
+                symbol: symbolParts.slice(0, 2).join('.'),
+                language: getLanguageByExtension(extension),
+            });
         }
 
-        return importStatements;
+        return usageStatements;
     } catch (error) {
         console.error(`Failed to process file: ${filePath}`);
         if (error instanceof Error) {
@@ -110,11 +389,156 @@ async function extractImports(
     }
 }
 
-function getLibraryAndImportedEntity(
+type JavaSourceDependencies = {
+    imports: {
+        importedClass: string;
+        isStatic: boolean;
+        isWildcard: boolean;
+    }[];
+    requiredModules: { moduleName: string; modifiers: string[] }[];
+    qualifiedReferences: string[]; // distinct classes, in order of appearance
+    references: { identifiers: string[]; line: number }[]; // type and name references, e.g. [StringUtils, isBlank]
+};
+
+/**
+ * Parses a Java compilation unit (or `module-info.java`) into a syntax tree,
+ * so that imports split across lines or surrounded by comments are read the
+ * way the compiler reads them.
+ */
+function parseJavaSource(source: string): JavaSourceDependencies {
+    const dependencies: JavaSourceDependencies = {
+        imports: [],
+        requiredModules: [],
+        qualifiedReferences: [],
+        references: [],
+    };
+    const qualifiedReferences = new Set<string>();
+
+    const visit = (node: CstNode) => {
+        if (node.name === 'importDeclaration') {
+            const name = getChildNodes(node, 'packageOrTypeName')[0];
+            if (name) {
+                dependencies.imports.push({
+                    importedClass: getIdentifiers(name).join('.'),
+                    isStatic: 'Static' in node.children,
+                    isWildcard: 'Star' in node.children,
+                });
+            }
+            return;
+        }
+
+        if (node.name === 'requiresModuleDirective') {
+            const name = getChildNodes(node, 'moduleName')[0];
+            if (name) {
+                dependencies.requiredModules.push({
+                    moduleName: getIdentifiers(name).join('.'),
+                    modifiers: getChildNodes(node, 'requiresModifier')
+                        .flatMap(getTokens)
+                        .map(({ image }) => image),
+                });
+            }
+            return;
+        }
+
+        if (qualifiedNameNodes.has(node.name)) {
+            const identifiers =
+                node.name === 'fqnOrRefType'
+                    ? getFqnOrRefTypeIdentifiers(node)
+                    : getIdentifiers(node);
+            if (identifiers.length > 0) {
+                dependencies.references.push({
+                    identifiers,
+                    line: node.location.startLine,
+                });
+            }
+            const qualifiedClass = getQualifiedClassName(identifiers);
+            if (qualifiedClass) {
+                qualifiedReferences.add(qualifiedClass);
+            }
+        }
+
+        for (const name of Object.keys(node.children)) {
+            getChildNodes(node, name).forEach(visit);
+        }
+    };
+
+    visit(parse(source));
+    dependencies.qualifiedReferences = Array.from(qualifiedReferences);
+    return dependencies;
+}
+
+// Nodes holding a (possibly qualified) type name: declarations, `new`, annotations and expressions
+const qualifiedNameNodes = new Set([
+    'classType',
+    'unannClassType',
+    'classOrInterfaceTypeToInstantiate',
+    'typeName',
+    'fqnOrRefType',
+]);
+
+/**
+ * Java has no syntax telling packages apart from types in a qualified name,
+ * so this relies on the naming conventions: lowercase package segments
+ * followed by a capitalized class name (`com.google.common.base.Optional`).
+ * Names starting with a class (`Map.Entry`) or a variable (`user.name`) are
+ * not fully qualified references.
+ */
+function getQualifiedClassName(identifiers: string[]): string | null {
+    const classIndex = identifiers.findIndex((identifier) =>
+        /^[A-Z]/.test(identifier),
+    );
+    if (classIndex < 1 || !/[a-z]/.test(identifiers[classIndex])) {
+        return null; // e.g. `config.settings.MAX_SIZE` is a constant
+    }
+    return identifiers.slice(0, classIndex + 1).join('.');
+}
+
+function getFqnOrRefTypeIdentifiers(node: CstNode): string[] {
+    return [
+        ...getChildNodes(node, 'fqnOrRefTypePartFirst'),
+        ...getChildNodes(node, 'fqnOrRefTypePartRest'),
+    ]
+        .flatMap((part) => getChildNodes(part, 'fqnOrRefTypePartCommon'))
+        .flatMap(getTokens)
+        .filter(({ tokenType }) => tokenType.name === 'Identifier')
+        .sort((a, b) => a.startOffset - b.startOffset)
+        .map(({ image }) => image);
+}
+
+function getIdentifiers(node: CstNode): string[] {
+    return getTokens(node)
+        .filter(({ tokenType }) => tokenType.name === 'Identifier')
+        .map(({ image }) => image);
+}
+
+// Direct token children of a node, in source order
+function getTokens(element: CstNode | IToken): IToken[] {
+    if (isToken(element)) {
+        return [element];
+    }
+    const children: (CstNode | IToken)[] = Object.values(
+        element.children,
+    ).flat();
+    return children
+        .filter(isToken)
+        .sort((a, b) => a.startOffset - b.startOffset);
+}
+
+function getChildNodes(node: CstNode, name: string): CstNode[] {
+    const children: (CstNode | IToken)[] = node.children[name] ?? [];
+    return children.filter((child): child is CstNode => !isToken(child));
+}
+
+function isToken(element: CstNode | IToken): element is IToken {
+    return 'image' in element;
+}
+
+export function getLibraryAndImportedEntity(
     importedClass: string,
     isStatic: boolean,
     isWildcard: boolean,
     packageToJarMap: Map<string, ImportedClassMetadata>,
+    declaredArtifacts: DeclaredArtifact[],
 ): { library: string; importedEntity: string } {
     const importDetails = packageToJarMap.get(importedClass);
     if (importDetails) {
@@ -137,7 +561,58 @@ function getLibraryAndImportedEntity(
         }
     }
 
-    return fallbackForNotFindingJarMatch(importedClass, isWildcard, isStatic);
+    const fallback = fallbackForNotFindingJarMatch(
+        importedClass,
+        isWildcard,
+        isStatic,
+    );
+    const artifact = findDeclaredArtifact(importedClass, declaredArtifacts);
+    if (artifact) {
+        return {
+            library: `${artifact.artifactId}@${artifact.version}`,
+            importedEntity: fallback.importedEntity,
+        };
+    }
+    return fallback;
+}
+
+/**
+ * Without class-level information from jdeps, picks the declared artifact
+ * whose groupId is the longest prefix of the imported class. Several
+ * artifacts often share a groupId (e.g. `org.springframework.boot`), so the
+ * package segments after the groupId are matched against the artifactId words
+ * (`...boot.autoconfigure.*` ➝ `spring-boot-autoconfigure`).
+ */
+function findDeclaredArtifact(
+    importedClass: string,
+    declaredArtifacts: DeclaredArtifact[],
+): DeclaredArtifact | null {
+    const candidates = declaredArtifacts.filter(({ groupId }) =>
+        importedClass.startsWith(groupId + '.'),
+    );
+    if (candidates.length === 0) {
+        return null;
+    }
+
+    const longestGroupId = Math.max(
+        ...candidates.map(({ groupId }) => groupId.length),
+    );
+    const score = (artifact: DeclaredArtifact) => {
+        const packageSegments = importedClass
+            .slice(artifact.groupId.length + 1)
+            .split('.');
+        const artifactWords = artifact.artifactId.split(/[-.]/);
+        return artifactWords.filter((word) => packageSegments.includes(word))
+            .length;
+    };
+
+    return candidates
+        .filter(({ groupId }) => groupId.length === longestGroupId)
+        .sort(
+            (a, b) =>
+                score(b) - score(a) ||
+                a.artifactId.length - b.artifactId.length,
+        )[0];
 }
 
 /*
@@ -257,7 +732,7 @@ type ImportedClassMetadataMapByProject = Map<
     Map<string, ImportedClassMetadata> // ImportedClass ➝ ImportedClassMetadata
 >;
 
-type ImportedClassMetadata = {
+export type ImportedClassMetadata = {
     jar: string;
     entity: string;
 };
@@ -272,16 +747,21 @@ type ImportedClassMetadata = {
  * 3. Filters out self-references (dependencies to classes from the same JAR).
  * 4. Builds a mapping from each imported class (fully qualified name) to its originating JAR and entity name.
  *
+ * When there is no built JAR, or `mvn`/`jdeps` fail (e.g. on machines without a build or network), the
+ * mapping is built offline instead: the dependencies declared in the pom are resolved to JARs in the local
+ * Maven repository, whose class entries are indexed (see `generateOfflineImportedClassToJarMap`).
+ *
  * Returns a map where each key is a project path, and its value is another map from imported class names
  * to their corresponding JAR and class name (entity).
  */
 async function generateImportedClassToJarMaps(
     pomPaths: string[],
-): Promise<ImportedClassMetadataMapByProject> {
+): Promise<Omit<JvmProjectsAnalysis, 'groupIds'>> {
     const importedClassToJarMapsByProject = new Map<
         string,
         Map<string, ImportedClassMetadata>
     >();
+    const declaredArtifactsByProject = new Map<string, DeclaredArtifact[]>();
 
     for (const pomPath of pomPaths) {
         const projectPath = path.dirname(pomPath);
@@ -292,7 +772,15 @@ async function generateImportedClassToJarMaps(
 
         if (!projectJar) {
             console.warn(
-                `No JAR found in target for ${projectPath}, skipping...`,
+                `No JAR found in target for ${projectPath}, resolving offline...`,
+            );
+            const declaredArtifacts = await resolveMavenDependencies(pomPath);
+            declaredArtifactsByProject.set(projectPath, declaredArtifacts);
+            importedClassToJarMapsByProject.set(
+                projectPath,
+                await generateOfflineImportedClassToJarMap(
+                    await findMavenRepositoryJars(declaredArtifacts),
+                ),
             );
             continue;
         }
@@ -306,68 +794,218 @@ async function generateImportedClassToJarMaps(
                 { encoding: 'utf-8' },
             ).trim();
 
-            // multi-release was introduced in Java 9
-            const javaVersion = getJavaMajorVersion();
-            const jdepsCommand = [
-                `cd '${projectPath}'`,
-                javaVersion >= 9
-                    ? `jdeps --multi-release ${javaVersion} -verbose:class -cp "${classpath}" "target/${projectJar}"`
-                    : `jdeps -verbose:class -cp "${classpath}" "target/${projectJar}"`,
-            ].join(' && ');
-
-            const jdepsOutputs = execSync(jdepsCommand, {
-                encoding: 'utf-8',
-            }).trim();
-
-            const jdepsTestCommand = [
-                `cd '${projectPath}'`,
-                javaVersion >= 9
-                    ? `jdeps --multi-release ${javaVersion} -verbose:class -cp "${classpath}" "target/test-classes"`
-                    : `jdeps -verbose:class -cp "${classpath}" "target/test-classes"`,
-            ].join(' && ');
-            const jdepsTestOutput = execSync(jdepsTestCommand, {
-                encoding: 'utf-8',
-            }).trim();
-            jdepsCombinedOutputs = jdepsOutputs + '\n' + jdepsTestOutput;
+            jdepsCombinedOutputs = [
+                runJdeps(projectPath, classpath, `target/${projectJar}`),
+                runJdeps(projectPath, classpath, 'target/test-classes'),
+            ].join('\n');
         } catch (error) {
             console.error(
-                `Failed to process dependencies for ${projectPath}`,
+                `Failed to process dependencies for ${projectPath}, resolving offline...`,
                 error,
             );
+            const declaredArtifacts = await resolveMavenDependencies(pomPath);
+            declaredArtifactsByProject.set(projectPath, declaredArtifacts);
+            importedClassToJarMapsByProject.set(
+                projectPath,
+                await generateOfflineImportedClassToJarMap(
+                    await findMavenRepositoryJars(declaredArtifacts),
+                ),
+            );
             continue;
         }
 
         console.info(`Parsing jdeps output for ${projectPath}...`);
-        const importedClassToJarMap = new Map<string, ImportedClassMetadata>();
-        const lines = jdepsCombinedOutputs.trim().split('\n');
-
-        for (const line of lines) {
-            const regex = /^\s*(\S+)\s*->\s*(\S+)\s+(\S+?)(?:\.jar)?\s*$/;
-            const match = line.match(regex);
-            if (match) {
-                const sourceClass = match[1];
-                const importedClass = match[2];
-                const importedJar = match[3];
-                if (
-                    importedJar === projectJar ||
-                    (groupId && !sourceClass.startsWith(groupId))
-                ) {
-                    // Skip self-references (same JAR) and classes that are not part of the current project.
-                    continue;
-                }
-                const importedEntity = importedClass.split('.').at(-1) || '';
+        importedClassToJarMapsByProject.set(
+            projectPath,
+            parseJdepsOutput(jdepsCombinedOutputs, projectJar, groupId),
+        );
+    }
+    return {
+        importedClassToJarMaps: importedClassToJarMapsByProject,
+        declaredArtifacts: declaredArtifactsByProject,
+    };
+}
+
+/**
+ * Builds the imported class ➝ JAR mapping without compiling or running
+ * anything, by indexing the class entries of the dependency JARs. Unlike
+ * jdeps, this covers every class of a dependency rather than only those the
+ * project references, which is equivalent for looking up imports.
+ */
+async function generateOfflineImportedClassToJarMap(
+    jars: Map<DeclaredArtifact, string>,
+): Promise<Map<string, ImportedClassMetadata>> {
+    const importedClassToJarMap = new Map<string, ImportedClassMetadata>();
+
+    for (const [artifact, jarPath] of jars.entries()) {
+        let classes: string[];
+        try {
+            classes = listJarClasses(jarPath);
+        } catch (error) {
+            console.error(`Failed to read JAR ${jarPath}`, error);
+            continue;
+        }
 
-                importedClassToJarMap.set(importedClass, {
-                    jar: importedJar
-                        .replace(/\.jar$/, '') // remove .jar extension
-                        .replace(/-(\d+(?:\.\d+)+.*)$/, '@$1'), // replace last dash before version with @
-                    entity: importedEntity,
+        for (const className of classes) {
+            // The nearest dependency wins when several JARs ship the same class
+            if (!importedClassToJarMap.has(className)) {
+                importedClassToJarMap.set(className, {
+                    jar: `${artifact.artifactId}@${artifact.version}`,
+                    entity: className.split('.').at(-1) || '',
                 });
             }
         }
-        importedClassToJarMapsByProject.set(projectPath, importedClassToJarMap);
     }
-    return importedClassToJarMapsByProject;
+
+    return importedClassToJarMap;
+}
+
+function runJdeps(projectPath: string, classpath: string, target: string) {
+    // multi-release was introduced in Java 9
+    const javaVersion = getJavaMajorVersion();
+    const jdepsCommand = [
+        `cd '${projectPath}'`,
+        javaVersion >= 9
+            ? `jdeps --multi-release ${javaVersion} -verbose:class -cp "${classpath}" "${target}"`
+            : `jdeps -verbose:class -cp "${classpath}" "${target}"`,
+    ].join(' && ');
+
+    return execSync(jdepsCommand, { encoding: 'utf-8' }).trim();
+}
+
+function parseJdepsOutput(
+    jdepsOutput: string,
+    projectJar: string,
+    groupId: string | null,
+): Map<string, ImportedClassMetadata> {
+    const importedClassToJarMap = new Map<string, ImportedClassMetadata>();
+    const lines = jdepsOutput.trim().split('\n');
+
+    for (const line of lines) {
+        const regex = /^\s*(\S+)\s*->\s*(\S+)\s+(\S+?)(?:\.jar)?\s*$/;
+        const match = line.match(regex);
+        if (match) {
+            const sourceClass = match[1];
+            const importedClass = match[2];
+            const importedJar = match[3];
+            if (
+                importedJar === projectJar ||
+                (groupId && !sourceClass.startsWith(groupId))
+            ) {
+                // Skip self-references (same JAR) and classes that are not part of the current project.
+                continue;
+            }
+            const importedEntity = importedClass.split('.').at(-1) || '';
+
+            importedClassToJarMap.set(importedClass, {
+                jar: importedJar
+                    .replace(/\.jar$/, '') // remove .jar extension
+                    .replace(/-(\d+(?:\.\d+)+.*)$/, '@$1'), // replace last dash before version with @
+                entity: importedEntity,
+            });
+        }
+    }
+    return importedClassToJarMap;
+}
+
+/**
+ * Analyzes Gradle-based Java projects. For each project directory, the method:
+ * 1. Reads the project `group` used for local-import detection.
+ * 2. Reads the locked dependencies from `gradle.lockfile`.
+ * 3. If a JAR was built into `build/libs`, runs `jdeps` against it with a
+ *    classpath made of the locked dependencies found in the Gradle cache, and
+ *    builds the same imported class ➝ JAR mapping the Maven analysis does.
+ *
+ * Projects without build output get their class map from indexing the cached
+ * JARs of the locked dependencies instead, and imports that are still not
+ * found are attributed through the locked dependencies' groupIds.
+ */
+async function analyzeGradleProjects(
+    projectPaths: string[],
+    lockfilePaths: string[],
+): Promise<JvmProjectsAnalysis> {
+    const analysis: JvmProjectsAnalysis = {
+        groupIds: [],
+        importedClassToJarMaps: new Map(),
+        declaredArtifacts: new Map(),
+    };
+
+    for (const projectPath of projectPaths) {
+        const [groupId, declaredArtifacts, projectJar] = await Promise.all([
+            findGradleGroupId(projectPath, projectPaths),
+            readGradleLockfiles(projectPath, lockfilePaths),
+            findGradleProjectJar(projectPath),
+        ]);
+        if (groupId && !analysis.groupIds.includes(groupId)) {
+            analysis.groupIds.push(groupId);
+        }
+        analysis.declaredArtifacts.set(projectPath, declaredArtifacts);
+        const cachedJars = await findGradleCachedJars(declaredArtifacts);
+
+        if (!projectJar) {
+            if (declaredArtifacts.length === 0) {
+                console.warn(
+                    `No JAR found in build/libs and no gradle.lockfile for ${projectPath}`,
+                );
+            }
+            analysis.importedClassToJarMaps.set(
+                projectPath,
+                await generateOfflineImportedClassToJarMap(cachedJars),
+            );
+            continue;
+        }
+
+        try {
+            console.info(`Processing ${projectPath}...`);
+
+            const classpath = Array.from(cachedJars.values()).join(
+                path.delimiter,
+            );
+            const targets = [projectJar];
+            for (const testClasses of gradleTestClassesDirectories) {
+                if (await isDirectory(path.join(projectPath, testClasses))) {
+                    targets.push(testClasses);
+                }
+            }
+            const jdepsCombinedOutputs = targets
+                .map((target) => runJdeps(projectPath, classpath, target))
+                .join('\n');
+
+            console.info(`Parsing jdeps output for ${projectPath}...`);
+            analysis.importedClassToJarMaps.set(
+                projectPath,
+                parseJdepsOutput(
+                    jdepsCombinedOutputs,
+                    path.basename(projectJar),
+                    groupId,
+                ),
+            );
+        } catch (error) {
+            console.error(
+                `Failed to process dependencies for ${projectPath}, resolving offline...`,
+                error,
+            );
+            analysis.importedClassToJarMaps.set(
+                projectPath,
+                await generateOfflineImportedClassToJarMap(cachedJars),
+            );
+        }
+    }
+
+    return analysis;
+}
+
+const gradleTestClassesDirectories = [
+    'build/classes/java/test',
+    'build/classes/kotlin/test',
+];
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(dirPath)).isDirectory();
+    } catch {
+        return false;
+    }
 }
 
 export function getJavaMajorVersion(): number {
@@ -405,7 +1043,10 @@ async function findProjectJar(projectPath: string): Promise<string | null> {
     }
 }
 
-function isLocalImport(importedClass: string, repoGroupIds: string[]): boolean {
+export function isLocalImport(
+    importedClass: string,
+    repoGroupIds: string[],
+): boolean {
     return repoGroupIds.some((prefix) => importedClass.startsWith(prefix));
 }
 
@@ -417,7 +1058,7 @@ export function isJdkModule(moduleName: string): boolean {
     );
 }
 
-const javaExcludedDirectories = ['.gradle', '.mvn'];
+export const javaExcludedDirectories = ['.gradle', '.mvn'];
 
 const javaExcludedFilePatterns = [
     '*.iml', // IntelliJ IDEA module files
@@ -430,9 +1071,9 @@ const javaExcludedFilePatterns = [
     'pom.xml',
     '*.ivy',
     '*.ivy.xml',
-
-    // Test files (if you're parsing only .java)
-    '*Test.java',
-    '*.test.java',
-    '*.spec.java',
 ];
+
+const javaTestExclusions: ExclusionRules = {
+    directories: [],
+    filePatterns: ['*Test.java', '*.test.java', '*.spec.java'],
+};
@@ -1,69 +1,120 @@
 import * as fs from 'fs/promises';
-import { parse } from 'jsonc-parser';
 import * as babelParser from '@babel/parser';
-import traverse from '@babel/traverse';
-import { ImportStatement, LanguageExtractor, Plugin } from '../types';
+import traverse, { NodePath } from '@babel/traverse';
 import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    LibraryResolution,
+    Plugin,
+    PluginSettings,
+    UsageStatement,
+} from '../types';
+import {
+    applyExclusionSettings,
     findProjectPath,
     getLanguageByExtension,
     getRelativePathToRepo,
     isIgnored,
 } from './plugin.util';
+import { extractScriptBlocks } from './sfc.util';
+import {
+    findLocalImportPrefixes,
+    getLocalImportPrefixes,
+} from './module-resolution.util';
 import path from 'path';
+import * as yarnLockfile from '@yarnpkg/lockfile';
+import yaml from 'js-yaml';
+import micromatch from 'micromatch';
 import {
     buildDepTreeFromFiles,
     getNpmLockfileVersion,
+    getYarnLockfileVersion,
     NodeLockfileVersion,
     parseNpmLockV2Project,
 } from 'snyk-nodejs-lockfile-parser';
 
 export const javaScriptPlugin: Plugin = {
-    extensions: ['.js', '.ts', '.jsx', '.tsx'],
+    name: 'javascript',
+    extensions: [
+        '.js',
+        '.ts',
+        '.jsx',
+        '.tsx',
+        '.vue',
+        '.svelte',
+        '.astro',
+        '.mdx',
+    ],
     createExtractor,
 };
 
 async function createExtractor(
     groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
 ): Promise<LanguageExtractor> {
     const jsonFiles = groupedFilesByExtensions.get('.json') ?? [];
-    const jsOrTsConfigs = jsonFiles.filter(
-        (file) =>
-            file.endsWith('tsconfig.json') || file.endsWith('jsconfig.json'),
+    const localImportPrefixes = await findLocalImportPrefixes(
+        groupedFilesByExtensions,
     );
-    const localAbsoluteImportPrefixes =
-        await extractLocalAbsoluteImportPrefixes(jsOrTsConfigs);
+    const getFilePrefixes = (filePath: string) =>
+        new Set([
+            ...getLocalImportPrefixes(filePath, localImportPrefixes),
+            ...settings.localImportPrefixes,
+        ]);
 
     const packageJsonFiles = jsonFiles.filter((file) =>
         file.endsWith('package.json'),
     );
-    const packageLockJsonFiles = jsonFiles.filter((file) =>
-        file.endsWith('package-lock.json'),
-    );
+    const lockFiles = [
+        ...jsonFiles.filter((file) => file.endsWith('package-lock.json')),
+        ...(groupedFilesByExtensions.get('.lock') ?? []).filter(
+            (file) => path.basename(file) === 'yarn.lock',
+        ),
+        ...(groupedFilesByExtensions.get('.yaml') ?? []).filter(
+            (file) => path.basename(file) === 'pnpm-lock.yaml',
+        ),
+    ];
 
-    const dependencyMap = await buildDependencyMap(
-        packageJsonFiles,
-        packageLockJsonFiles,
+    const dependencyMap = await buildDependencyMap(packageJsonFiles, lockFiles);
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: javascriptExcludedDirectories,
+            filePatterns: javascriptExcludedFilePatterns,
+        },
+        settings,
+        javascriptTestExclusions,
     );
 
     return {
-        isIgnored: (file: string) =>
-            isIgnored(
-                file,
-                javascriptExcludedDirectories,
-                javascriptExcludedFilePatterns,
-            ),
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'javascript'),
         async extractImports(filePath: string, repoPath: string) {
-            const projectPath = findProjectPath(
+            // Files outside every package are resolved from the repo root
+            const projectPath =
+                findProjectPath(filePath, Array.from(dependencyMap.keys())) ||
+                repoPath;
+
+            return await extractImports(
                 filePath,
-                Array.from(dependencyMap.keys()),
+                repoPath,
+                projectPath,
+                getFilePrefixes(filePath),
+                dependencyMap.get(projectPath) ?? new Map(),
             );
+        },
+        async extractUsages(filePath: string, repoPath: string) {
+            const projectPath =
+                findProjectPath(filePath, Array.from(dependencyMap.keys())) ||
+                repoPath;
 
-            return await extractImports(
+            return await extractUsages(
                 filePath,
                 repoPath,
                 projectPath,
-                localAbsoluteImportPrefixes,
-                dependencyMap.get(projectPath),
+                getFilePrefixes(filePath),
+                dependencyMap.get(projectPath) ?? new Map(),
             );
         },
     };
@@ -74,55 +125,67 @@ async function extractImports(
     repoPath: string,
     projectPath: string,
     localAbsoluteImportPrefixes: Set<string>,
-    dependencyMap?: Map<string, string>,
+    dependencyMap: Map<string, string>,
 ): Promise<ImportStatement[]> {
-    if (!dependencyMap) {
-        throw new Error(
-            `Error finding dependency map for this project: ${projectPath}`,
-        );
-    }
-
     try {
         const relativePath = getRelativePathToRepo(repoPath, filePath);
         const extension = filePath.slice(filePath.lastIndexOf('.'));
         const fileContent = await fs.readFile(filePath, 'utf8');
 
-        // Parse the content
-        const ast = babelParser.parse(fileContent, {
-            sourceType: 'module',
-            plugins: [
-                'jsx', // Handles JSX syntax
-                'typescript', // Handles TypeScript syntax
-                'decorators-legacy', // Handles decorators if used
-                'classProperties', // Handles class properties
-                'optionalChaining', // Handles optional chaining
-                'nullishCoalescingOperator', // Handles ?? operator
-            ],
-        });
-
         const importStatements: ImportStatement[] = [];
-        traverse(ast, {
-            // Check for import statements commonly used in E6+ modules like:
-            // - import something from 'some-library';
-            // - import { somethingElse } from 'another-library';
-            ImportDeclaration({ node }) {
-                if (
-                    node.source &&
-                    node.source.type === 'StringLiteral' &&
-                    !isLocalImport(
-                        node.source.value,
-                        localAbsoluteImportPrefixes,
-                    ) &&
-                    !isNodeModule(node.source.value)
-                ) {
-                    const library =
-                        dependencyMap.get(node.source.value) ??
-                        fallbackResolveImport(node.source.value, dependencyMap);
-                    const fullImport =
-                        typeof node.start === 'number' &&
-                        typeof node.end === 'number'
-                            ? fileContent.slice(node.start, node.end)
-                            : `import ... from '${library}'`;
+        const unmatchedImports: [ImportStatement, string][] = [];
+        const addImportStatement = (
+            importPath: string,
+            node: { start?: number | null; end?: number | null },
+            importedEntity: string,
+            modifiers: string[],
+        ) => {
+            const library = resolveLibrary(
+                importPath,
+                localAbsoluteImportPrefixes,
+                dependencyMap,
+            );
+            if (!library) {
+                return;
+            }
+
+            const importStatement: ImportStatement = {
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: importedEntity,
+                modifiers: isWorkspaceLibrary(library)
+                    ? [...modifiers, 'workspace']
+                    : modifiers,
+                language: getLanguageByExtension(extension),
+                library: library,
+                libraryResolution:
+                    library === noLockFileMatch ? undefined : 'lockfile',
+                fullImport:
+                    typeof node.start === 'number' &&
+                    typeof node.end === 'number'
+                        ? fileContent.slice(node.start, node.end)
+                        : importPath,
+            };
+            importStatements.push(importStatement);
+            if (library === noLockFileMatch) {
+                unmatchedImports.push([importStatement, importPath]);
+            }
+        };
+
+        // Vue, Svelte, Astro and MDX files can hold several blocks of code
+        for (const code of extractScriptBlocks(fileContent, extension)) {
+            const ast = parseScript(code);
+
+            traverse(ast, {
+                // Check for import statements commonly used in E6+ modules like:
+                // - import something from 'some-library';
+                // - import { somethingElse } from 'another-library';
+                // - import type { SomeType } from 'another-library';
+                ImportDeclaration({ node }) {
+                    if (!node.source || node.source.type !== 'StringLiteral') {
+                        return;
+                    }
+
                     const importedEntities = node.specifiers
                         .map((specifier) => {
                             if (specifier.type === 'ImportDefaultSpecifier') {
@@ -156,89 +219,218 @@ async function extractImports(
                     const modifiers = importedEntities
                         .map((entity) => entity.modifier)
                         .filter((modifier) => modifier !== null); // Filter out nulls
+                    // `import type { A }` and `import { type A }` are erased at compile time
+                    if (
+                        node.importKind === 'type' ||
+                        node.importKind === 'typeof' ||
+                        (node.specifiers.length > 0 &&
+                            node.specifiers.every(
+                                (specifier) =>
+                                    specifier.type === 'ImportSpecifier' &&
+                                    specifier.importKind === 'type',
+                            ))
+                    ) {
+                        modifiers.push('type-only');
+                    }
 
-                    importStatements.push({
-                        file: relativePath,
-                        projectPath: projectPath,
-                        importedEntity: importedEntities
-                            .filter(Boolean)
-                            .map((entity) => entity!.name)
+                    addImportStatement(
+                        node.source.value,
+                        node,
+                        importedEntities
+                            .map((entity) => entity.name)
                             .join(', '), // Concatenate all valid imported entities
-                        modifiers: modifiers,
-                        language: getLanguageByExtension(extension),
-                        library: library,
-                        fullImport: fullImport,
-                    });
-                }
-            },
-            // Check for require statements commonly used in CommonJS modules like:
-            // - const something = require('some-library');
-            CallExpression({ node }) {
-                if (
-                    node.callee?.type === 'Identifier' &&
-                    node.callee.name === 'require' &&
-                    node.arguments?.length > 0 &&
-                    node.arguments[0].type === 'StringLiteral' &&
-                    !isLocalImport(
-                        node.arguments[0].value,
-                        localAbsoluteImportPrefixes,
-                    ) &&
-                    !isNodeModule(node.arguments[0].value)
-                ) {
-                    const library =
-                        dependencyMap.get(node.arguments[0].value) ??
-                        fallbackResolveImport(
-                            node.arguments[0].value,
-                            dependencyMap,
-                        );
-                    const fullImport =
-                        typeof node.start === 'number' &&
-                        typeof node.end === 'number'
-                            ? fileContent.slice(node.start, node.end)
-                            : `const ... = require('${library}');`;
-                    importStatements.push({
-                        file: relativePath,
-                        projectPath: projectPath,
-                        importedEntity: '', // No `importedEntity` for require
-                        modifiers: [], // No modifiers for require
-                        language: getLanguageByExtension(extension),
-                        library: library,
-                        fullImport: fullImport,
-                    });
-                }
-            },
-            // This handles dynamic import() calls, often used for code-splitting:
-            // - const something = await import('some-library');
-            ImportExpression({ node }) {
-                if (
-                    node.source &&
-                    node.source.type === 'StringLiteral' &&
-                    !isLocalImport(
+                        modifiers,
+                    );
+                },
+                // Re-exports pull in a library just like imports, e.g. in barrel files:
+                // - export { something, other as alias } from 'some-library';
+                // - export * as namespace from 'some-library';
+                ExportNamedDeclaration({ node }) {
+                    if (!node.source) {
+                        return; // Local exports
+                    }
+
+                    const exportedEntities = node.specifiers.map(
+                        (specifier) => {
+                            if (specifier.type === 'ExportNamespaceSpecifier') {
+                                return {
+                                    name: `* as ${specifier.exported.name}`,
+                                    modifier: 'wildcard, alias',
+                                };
+                            }
+                            if (specifier.type === 'ExportDefaultSpecifier') {
+                                return {
+                                    name: specifier.exported.name,
+                                    modifier: null,
+                                };
+                            }
+                            const exportedName =
+                                specifier.exported.type === 'Identifier'
+                                    ? specifier.exported.name
+                                    : specifier.exported.value;
+                            return {
+                                name: exportedName,
+                                modifier:
+                                    exportedName !== specifier.local.name
+                                        ? 'alias'
+                                        : null,
+                            };
+                        },
+                    );
+
+                    const modifiers = [
+                        're-export',
+                        ...exportedEntities
+                            .map((entity) => entity.modifier)
+                            .filter((modifier) => modifier !== null),
+                    ];
+                    // `export type { A } from` and `export { type A } from`
+                    if (
+                        node.exportKind === 'type' ||
+                        (node.specifiers.length > 0 &&
+                            node.specifiers.every(
+                                (specifier) =>
+                                    specifier.type === 'ExportSpecifier' &&
+                                    specifier.exportKind === 'type',
+                            ))
+                    ) {
+                        modifiers.push('type-only');
+                    }
+
+                    addImportStatement(
                         node.source.value,
-                        localAbsoluteImportPrefixes,
-                    ) &&
-                    !isNodeModule(node.source.value)
-                ) {
-                    const library =
-                        dependencyMap.get(node.source.value) ??
-                        fallbackResolveImport(node.source.value, dependencyMap);
-                    const fullImport =
-                        typeof node.start === 'number' &&
-                        typeof node.end === 'number'
-                            ? fileContent.slice(node.start, node.end)
-                            : `import('${library}');`;
-                    importStatements.push({
-                        file: relativePath,
-                        projectPath: projectPath,
-                        importedEntity: '', // No `importedEntity` for dynamic imports
-                        modifiers: [], // No modifiers for dynamic imports
-                        language: getLanguageByExtension(extension),
-                        library: library,
-                        fullImport: fullImport,
-                    });
-                }
-            },
-        });
+                        node,
+                        exportedEntities
+                            .map((entity) => entity.name)
+                            .join(', '),
+                        modifiers,
+                    );
+                },
+                // - export * from 'some-library';
+                ExportAllDeclaration({ node }) {
+                    addImportStatement(
+                        node.source.value,
+                        node,
+                        '*',
+                        [
+                            're-export',
+                            'wildcard',
+                            node.exportKind === 'type' && 'type-only',
+                        ].filter(Boolean) as string[],
+                    );
+                },
+                // TypeScript's CommonJS import syntax:
+                // - import something = require('some-library');
+                TSImportEqualsDeclaration({ node }) {
+                    if (
+                        node.moduleReference.type !==
+                        'TSExternalModuleReference'
+                    ) {
+                        return; // `import alias = Namespace.Member;`
+                    }
+
+                    addImportStatement(
+                        node.moduleReference.expression.value,
+                        node,
+                        node.id.name,
+                        node.importKind === 'type' ? ['type-only'] : [],
+                    );
+                },
+                // Types imported inline, which are only used at compile time:
+                // - let value: import('some-library').SomeType;
+                // - type Module = typeof import('some-library');
+                TSImportType({ node }) {
+                    if (node.argument.type !== 'StringLiteral') {
+                        return;
+                    }
+
+                    addImportStatement(
+                        node.argument.value,
+                        node,
+                        node.qualifier &&
+                            typeof node.qualifier.start === 'number' &&
+                            typeof node.qualifier.end === 'number'
+                            ? code.slice(
+                                  node.qualifier.start,
+                                  node.qualifier.end,
+                              )
+                            : '',
+                        ['type-only'],
+                    );
+                },
+                // Check for require statements commonly used in CommonJS modules like:
+                // - const something = require('some-library');
+                // - const { something, other: alias } = require('some-library');
+                // and for calls that only refer to a module by name:
+                // - require.resolve('some-library');
+                // - jest.mock('some-library'); / vi.mock('some-library');
+                CallExpression(nodePath) {
+                    const { node } = nodePath;
+                    const [moduleName] = node.arguments;
+                    if (moduleName?.type !== 'StringLiteral') {
+                        return;
+                    }
+
+                    if (
+                        node.callee.type === 'Identifier' &&
+                        node.callee.name === 'require'
+                    ) {
+                        const boundEntities = getBoundEntities(nodePath, false);
+                        addImportStatement(
+                            moduleName.value,
+                            node,
+                            boundEntities
+                                .map((entity) => entity.name)
+                                .join(', '),
+                            boundEntities
+                                .map((entity) => entity.modifier)
+                                .filter((modifier) => modifier !== null),
+                        );
+                    } else if (
+                        node.callee.type === 'MemberExpression' &&
+                        !node.callee.computed &&
+                        node.callee.object.type === 'Identifier' &&
+                        node.callee.property.type === 'Identifier'
+                    ) {
+                        const modifier =
+                            moduleReferenceCalls[
+                                `${node.callee.object.name}.${node.callee.property.name}`
+                            ];
+                        if (modifier) {
+                            addImportStatement(moduleName.value, node, '', [
+                                modifier,
+                            ]);
+                        }
+                    }
+                },
+                // This handles dynamic import() calls, often used for code-splitting:
+                // - const something = await import('some-library');
+                // - const { default: something } = await import('some-library');
+                ImportExpression(nodePath) {
+                    const { node } = nodePath;
+                    if (node.source && node.source.type === 'StringLiteral') {
+                        const boundEntities = getBoundEntities(nodePath, true);
+                        addImportStatement(
+                            node.source.value,
+                            node,
+                            boundEntities
+                                .map((entity) => entity.name)
+                                .join(', '),
+                            boundEntities
+                                .map((entity) => entity.modifier)
+                                .filter((modifier) => modifier !== null),
+                        );
+                    }
+                },
+            });
+        }
+
+        for (const [importStatement, importPath] of unmatchedImports) {
+            Object.assign(
+                importStatement,
+                await resolveUnlockedLibrary(importPath, filePath, repoPath),
+            );
+        }
 
         return importStatements;
     } catch (error) {
@@ -252,64 +444,428 @@ async function extractImports(
     }
 }
 
-interface TsConfig {
-    compilerOptions?: {
-        baseUrl?: string;
-        paths?: Record<string, string[]>;
-    };
+function parseScript(code: string) {
+    return babelParser.parse(code, {
+        sourceType: 'module',
+        plugins: [
+            'jsx', // Handles JSX syntax
+            'typescript', // Handles TypeScript syntax
+            'decorators-legacy', // Handles decorators if used
+            'classProperties', // Handles class properties
+            'optionalChaining', // Handles optional chaining
+            'nullishCoalescingOperator', // Handles ?? operator
+        ],
+        createImportExpressions: true, // Parses import() as an ImportExpression instead of a call
+    });
 }
 
-async function extractLocalAbsoluteImportPrefixes(
-    configPaths: string[],
-): Promise<Set<string>> {
-    const allPrefixes: Set<string> = new Set();
+/**
+ * Returns the `library@version` an import path resolves to, or null for
+ * imports of the project itself and Node.js builtins.
+ */
+function resolveLibrary(
+    importPath: string,
+    localAbsoluteImportPrefixes: Set<string>,
+    dependencyMap: Map<string, string>,
+): string | null {
+    if (
+        isLocalImport(importPath, localAbsoluteImportPrefixes) ||
+        isNodeModule(importPath)
+    ) {
+        return null;
+    }
+    return (
+        dependencyMap.get(importPath) ??
+        fallbackResolveImport(importPath, dependencyMap)
+    );
+}
 
-    for (const configPath of configPaths) {
-        try {
-            const raw = await fs.readFile(configPath, 'utf8');
-            const parsed: TsConfig = parse(raw);
-            const baseUrl = parsed.compilerOptions?.baseUrl;
-            const paths = parsed.compilerOptions?.paths;
-
-            if (paths) {
-                for (const key of Object.keys(paths)) {
-                    const cleaned = key.replace(/\/\*$/, '');
-                    allPrefixes.add(cleaned);
+/**
+ * Usage pass: follows every binding created by an import (or a `require()`/
+ * `import()` assigned to a variable) through Babel's scope analysis and
+ * records how each reference uses it. Member accesses and calls are chained
+ * into a symbol, named after the imported binding:
+ * - `import _ from 'lodash'; _.get(a, 'b')` ➝ `_.get`
+ * - `import { debounce } from 'lodash'; debounce(fn)` ➝ `debounce`
+ * - `import moment from 'moment'; moment().format()` ➝ `moment().format`
+ * Type-only imports are skipped, as they are not used at runtime.
+ */
+async function extractUsages(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    localAbsoluteImportPrefixes: Set<string>,
+    dependencyMap: Map<string, string>,
+): Promise<UsageStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const usageStatements: UsageStatement[] = [];
+        const unmatchedUsages: [UsageStatement, string][] = [];
+        const addUsages = (
+            importPath: string,
+            scopePath: NodePath,
+            localName: string,
+            symbol: string,
+        ) => {
+            const library = resolveLibrary(
+                importPath,
+                localAbsoluteImportPrefixes,
+                dependencyMap,
+            );
+            const binding = scopePath.scope.getBinding(localName);
+            if (!library || !binding) {
+                return;
+            }
+
+            for (const referencePath of binding.referencePaths) {
+                if (referencePath.findParent((p) => p.isJSXClosingElement())) {
+                    continue; // Counted with its opening element
                 }
-            } else if (baseUrl) {
-                const relativeBase = baseUrl
-                    .replace(/^\.\/?/, '')
-                    .replace(/\/$/, '');
-                if (relativeBase.length > 0) {
-                    allPrefixes.add(relativeBase);
+                const usageStatement: UsageStatement = {
+                    file: relativePath,
+                    line: referencePath.node.loc?.start.line ?? 0,
+                    projectPath: projectPath,
+                    library: library,
+                    symbol: getUsedSymbol(referencePath, symbol),
+                    language: getLanguageByExtension(extension),
+                };
+                usageStatements.push(usageStatement);
+                if (library === noLockFileMatch) {
+                    unmatchedUsages.push([usageStatement, importPath]);
                 }
             }
-        } catch (err) {
-            console.error(`Failed to parse js/tsconfig: ${configPath}`, err);
+        };
+
+        for (const code of extractScriptBlocks(fileContent, extension)) {
+            traverse(parseScript(code), {
+                ImportDeclaration(nodePath) {
+                    const { node } = nodePath;
+                    if (node.importKind === 'type') {
+                        return;
+                    }
+
+                    for (const specifier of node.specifiers) {
+                        if (
+                            specifier.type === 'ImportSpecifier' &&
+                            specifier.importKind !== 'type'
+                        ) {
+                            const importedName =
+                                specifier.imported.type === 'Identifier'
+                                    ? specifier.imported.name
+                                    : specifier.imported.value;
+                            addUsages(
+                                node.source.value,
+                                nodePath,
+                                specifier.local.name,
+                                importedName,
+                            );
+                        } else if (specifier.type !== 'ImportSpecifier') {
+                            // Default and namespace imports are named by the file
+                            addUsages(
+                                node.source.value,
+                                nodePath,
+                                specifier.local.name,
+                                specifier.local.name,
+                            );
+                        }
+                    }
+                },
+                // - const _ = require('lodash'); / const { get } = require('lodash');
+                // - const { default: moment } = await import('moment');
+                VariableDeclarator(nodePath) {
+                    const { id } = nodePath.node;
+                    let init = nodePath.node.init;
+                    if (init?.type === 'AwaitExpression') {
+                        init = init.argument;
+                    }
+
+                    const importPath =
+                        init?.type === 'ImportExpression' &&
+                        init.source.type === 'StringLiteral'
+                            ? init.source.value
+                            : init?.type === 'CallExpression' &&
+                                init.callee.type === 'Identifier' &&
+                                init.callee.name === 'require' &&
+                                init.arguments[0]?.type === 'StringLiteral'
+                              ? init.arguments[0].value
+                              : null;
+                    if (!importPath) {
+                        return;
+                    }
+
+                    if (id.type === 'Identifier') {
+                        addUsages(importPath, nodePath, id.name, id.name);
+                    } else if (id.type === 'ObjectPattern') {
+                        for (const property of id.properties) {
+                            const value =
+                                property.type === 'ObjectProperty' &&
+                                property.value.type === 'AssignmentPattern'
+                                    ? property.value.left
+                                    : property.type === 'ObjectProperty'
+                                      ? property.value
+                                      : null;
+                            if (
+                                property.type !== 'ObjectProperty' ||
+                                property.key.type !== 'Identifier' ||
+                                value?.type !== 'Identifier'
+                            ) {
+                                continue;
+                            }
+                            addUsages(
+                                importPath,
+                                nodePath,
+                                value.name,
+                                property.key.name === 'default'
+                                    ? value.name
+                                    : property.key.name,
+                            );
+                        }
+                    }
+                },
+            });
+        }
+
+        for (const [usageStatement, importPath] of unmatchedUsages) {
+            const resolved = await resolveUnlockedLibrary(
+                importPath,
+                filePath,
+                repoPath,
+            );
+            if (resolved) {
+                usageStatement.library = resolved.library;
+            }
+        }
+
+        return usageStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+/**
+ * Extends the symbol of a reference with the member accesses and calls made
+ * on it, e.g. `moment` used as `moment().format()` becomes `moment().format`.
+ * A final call is left out, since calling the symbol is the usage itself.
+ * The chain stops at the first member of a call result: what follows
+ * (`moment().format().trim`) is usually no longer the library's API.
+ */
+function getUsedSymbol(referencePath: NodePath, symbol: string): string {
+    let usedSymbol = symbol;
+    let currentPath = referencePath;
+
+    while (currentPath.parentPath && !usedSymbol.includes('().')) {
+        const parentPath: NodePath = currentPath.parentPath;
+        const parent = parentPath.node;
+
+        if (
+            (parent.type === 'MemberExpression' ||
+                parent.type === 'OptionalMemberExpression') &&
+            parent.object === currentPath.node &&
+            !parent.computed &&
+            parent.property.type === 'Identifier'
+        ) {
+            usedSymbol += `.${parent.property.name}`;
+        } else if (
+            parent.type === 'JSXMemberExpression' &&
+            parent.object === currentPath.node
+        ) {
+            usedSymbol += `.${parent.property.name}`; // <Select.Option />
+        } else if (
+            (parent.type === 'CallExpression' ||
+                parent.type === 'OptionalCallExpression') &&
+            parent.callee === currentPath.node &&
+            parentPath.parentPath?.isMemberExpression({ object: parent })
+        ) {
+            usedSymbol += '()';
+        } else {
+            break;
         }
+
+        currentPath = parentPath;
+    }
+
+    return usedSymbol;
+}
+
+type BoundEntity = { name: string; modifier: string | null };
+
+/**
+ * Finds the names the result of a `require()` or `import()` call is bound to,
+ * mirroring what import declarations report:
+ * - `const x = require('x')` ➝ `x`, like a default import
+ * - `const x = await import('x')` ➝ `* as x`, the module namespace
+ * - `const { a, b: c } = require('x')` ➝ `a` and `c` (alias)
+ * - `const { default: d } = await import('x')` ➝ `d`
+ * - `const x = require('x').y` ➝ `y` (alias when bound to another name)
+ * - `const x = require('x').default` ➝ `x`
+ * Calls whose result is not assigned to a variable bind nothing.
+ */
+function getBoundEntities(
+    callPath: NodePath,
+    isDynamicImport: boolean,
+): BoundEntity[] {
+    let valuePath: NodePath = callPath;
+    const isAwaited = !!valuePath.parentPath?.isAwaitExpression();
+    if (isAwaited) {
+        valuePath = valuePath.parentPath!;
+    }
+
+    let memberName: string | null = null;
+    const memberPath = valuePath.parentPath;
+    if (
+        (!isDynamicImport || isAwaited) && // Not `import('x').then(...)`
+        memberPath?.isMemberExpression() &&
+        memberPath.node.object === valuePath.node &&
+        !memberPath.node.computed &&
+        memberPath.node.property.type === 'Identifier'
+    ) {
+        memberName = memberPath.node.property.name;
+        valuePath = memberPath;
+    }
+
+    const declaratorPath = valuePath.parentPath;
+    if (
+        !declaratorPath?.isVariableDeclarator() ||
+        declaratorPath.node.init !== valuePath.node
+    ) {
+        return memberName ? [{ name: memberName, modifier: null }] : [];
+    }
+
+    const { id } = declaratorPath.node;
+    if (memberName === 'default' && id.type === 'Identifier') {
+        return [{ name: id.name, modifier: null }];
+    }
+    if (memberName) {
+        const isAliased = id.type === 'Identifier' && id.name !== memberName;
+        return [{ name: memberName, modifier: isAliased ? 'alias' : null }];
+    }
+    if (id.type === 'Identifier') {
+        return isDynamicImport
+            ? [{ name: `* as ${id.name}`, modifier: 'wildcard, alias' }]
+            : [{ name: id.name, modifier: null }];
     }
+    if (id.type !== 'ObjectPattern') {
+        return []; // e.g. array destructuring
+    }
+
+    return id.properties.flatMap((property): BoundEntity[] => {
+        if (property.type === 'RestElement') {
+            return property.argument.type === 'Identifier'
+                ? [{ name: `...${property.argument.name}`, modifier: null }]
+                : [];
+        }
+
+        const key =
+            property.key.type === 'Identifier' && !property.computed
+                ? property.key.name
+                : property.key.type === 'StringLiteral'
+                  ? property.key.value
+                  : null;
+        const value =
+            property.value.type === 'AssignmentPattern' // { a = fallback }
+                ? property.value.left
+                : property.value;
+        if (!key || value.type !== 'Identifier') {
+            return [];
+        }
 
-    return allPrefixes;
+        return [
+            {
+                name: value.name,
+                modifier:
+                    key !== 'default' && key !== value.name ? 'alias' : null,
+            },
+        ];
+    });
 }
 
 type DependencyMap = Map<string, Map<string, string>>;
 
 /**
- * Builds a map of project path => { library: library@version } from valid package.json and package-lock files.
+ * Builds a map of project path => { library: library@version } from valid package.json and lock files
+ * (package-lock.json, yarn.lock or pnpm-lock.yaml).
  */
 export async function buildDependencyMap(
     packageJsonPaths: string[],
-    packageLockJsonPaths: string[],
+    lockFilePaths: string[],
 ): Promise<DependencyMap> {
     const depMap: DependencyMap = new Map();
 
+    // A pnpm lockfile lists every workspace package (importer) with its own dependencies
+    const pnpmLockPaths = lockFilePaths.filter(
+        (file) => path.basename(file) === 'pnpm-lock.yaml',
+    );
+    for (const pnpmLockPath of pnpmLockPaths) {
+        try {
+            for (const [
+                projectDir,
+                depEntries,
+            ] of await readPnpmLockDependencies(pnpmLockPath)) {
+                depMap.set(projectDir, depEntries);
+            }
+        } catch (error) {
+            console.error(`Failed to parse ${pnpmLockPath}:`, error);
+        }
+    }
+
     const packageGroups = groupPackageJsonAndLockFiles(
         packageJsonPaths,
-        packageLockJsonPaths,
+        lockFilePaths.filter((file) => !pnpmLockPaths.includes(file)),
     );
 
-    for (const { packageJsonPath, packageLockPath } of packageGroups) {
-        const packageLockContent = await fs.readFile(packageLockPath, 'utf8');
+    const workspaces = await findWorkspaces(packageGroups);
+
+    for (const { packageJsonPath, lockFilePath } of packageGroups) {
+        const projectDir = path.dirname(packageJsonPath);
+        const lockDir = path.dirname(lockFilePath);
+        const isWorkspacePackage = projectDir !== lockDir;
+        if (
+            isWorkspacePackage &&
+            !Array.from(workspaces.get(lockDir)?.values() ?? []).includes(
+                projectDir,
+            )
+        ) {
+            continue; // Nested package.json outside of the workspace, e.g. a test fixture
+        }
+
+        if (path.basename(lockFilePath) === 'yarn.lock') {
+            try {
+                depMap.set(
+                    path.dirname(packageJsonPath),
+                    await readYarnLockDependencies(
+                        packageJsonPath,
+                        lockFilePath,
+                    ),
+                );
+            } catch (error) {
+                console.error(`Failed to parse ${lockFilePath}:`, error);
+            }
+            continue;
+        }
+
+        if (isWorkspacePackage) {
+            try {
+                depMap.set(
+                    projectDir,
+                    await readNpmWorkspaceDependencies(
+                        packageJsonPath,
+                        lockFilePath,
+                    ),
+                );
+            } catch (error) {
+                console.error(`Failed to parse ${lockFilePath}:`, error);
+            }
+            continue;
+        }
+
+        const packageLockContent = await fs.readFile(lockFilePath, 'utf8');
         const lockFileVersion = getNpmLockfileVersion(packageLockContent);
         if (lockFileVersion === NodeLockfileVersion.NpmLockV1) {
             // npm v1 lock files are only handled in this buildDepTreeFromFiles method, but they are considered deprecated
@@ -363,45 +919,469 @@ export async function buildDependencyMap(
                 depEntries.set(dep.name, `${dep.name}@${dep.version}`);
             }
 
-            const projectDir = path.dirname(packageJsonPath);
             depMap.set(projectDir, depEntries);
         }
     }
 
+    // Sibling packages of a workspace resolve to the workspace instead of a registry version
+    for (const [lockDir, workspacePackages] of workspaces) {
+        const workspaceDirs = [lockDir, ...workspacePackages.values()];
+        for (const [projectDir, depEntries] of depMap) {
+            if (!workspaceDirs.includes(projectDir)) {
+                continue;
+            }
+            for (const [name, packageDir] of workspacePackages) {
+                const workspacePath = path
+                    .relative(lockDir, packageDir)
+                    .split(path.sep)
+                    .join('/');
+                depEntries.set(name, `${name}@workspace:${workspacePath}`);
+            }
+        }
+    }
+
+    // Projects without a lock file still get an (empty) entry, their imports
+    // are resolved from node_modules or package.json, see `resolveUnlockedLibrary`
+    const lockDirs = lockFilePaths.map((file) => path.dirname(file));
+    for (const packageJsonPath of packageJsonPaths) {
+        const projectDir = path.dirname(packageJsonPath);
+        if (
+            !lockDirs.some(
+                (lockDir) =>
+                    projectDir === lockDir ||
+                    projectDir.startsWith(lockDir + path.sep),
+            )
+        ) {
+            depMap.set(projectDir, new Map());
+        }
+    }
+
+    return depMap;
+}
+
+/**
+ * Finds the workspace packages of each npm/Yarn lockfile directory: the
+ * package.json files matching the `workspaces` globs of the root package.json.
+ * Returns lockfile directory => { package name: package directory }.
+ */
+async function findWorkspaces(
+    packageGroups: PackageGroup[],
+): Promise<Map<string, Map<string, string>>> {
+    const workspaces = new Map<string, Map<string, string>>();
+    const lockDirs = new Set(
+        packageGroups.map(({ lockFilePath }) => path.dirname(lockFilePath)),
+    );
+
+    for (const lockDir of lockDirs) {
+        let patterns: string[];
+        try {
+            const rootPackageJson: {
+                workspaces?: string[] | { packages?: string[] };
+            } = JSON.parse(
+                await fs.readFile(path.join(lockDir, 'package.json'), 'utf8'),
+            );
+            patterns = Array.isArray(rootPackageJson.workspaces)
+                ? rootPackageJson.workspaces
+                : (rootPackageJson.workspaces?.packages ?? []); // Yarn's { packages, nohoist } form
+        } catch {
+            continue;
+        }
+        if (patterns.length === 0) {
+            continue;
+        }
+
+        const workspacePackages = new Map<string, string>();
+        for (const { packageJsonPath, lockFilePath } of packageGroups) {
+            const packageDir = path.dirname(packageJsonPath);
+            const relativeDir = path
+                .relative(lockDir, packageDir)
+                .split(path.sep)
+                .join('/');
+            if (
+                path.dirname(lockFilePath) !== lockDir ||
+                relativeDir === '' ||
+                micromatch([relativeDir], patterns).length === 0
+            ) {
+                continue;
+            }
+
+            try {
+                const packageJson: PackageJson = JSON.parse(
+                    await fs.readFile(packageJsonPath, 'utf8'),
+                );
+                if (packageJson.name) {
+                    workspacePackages.set(packageJson.name, packageDir);
+                }
+            } catch (error) {
+                console.error(`Failed to parse ${packageJsonPath}:`, error);
+            }
+        }
+        workspaces.set(lockDir, workspacePackages);
+    }
+
+    return workspaces;
+}
+
+type NpmLockPackage = {
+    name?: string; // set for aliases
+    version?: string;
+    resolved?: string;
+    link?: boolean;
+};
+
+/**
+ * Resolves a workspace package against the root package-lock.json (v2/v3).
+ * Node resolves a dependency from the nearest `node_modules`, so each declared
+ * dependency is looked up in the package's own `node_modules` first and then
+ * in those of its parent directories, up to the hoisted root ones.
+ */
+async function readNpmWorkspaceDependencies(
+    packageJsonPath: string,
+    packageLockPath: string,
+): Promise<Map<string, string>> {
+    const packageJson: PackageJson = JSON.parse(
+        await fs.readFile(packageJsonPath, 'utf8'),
+    );
+    const packageLock: { packages?: Record<string, NpmLockPackage> } =
+        JSON.parse(await fs.readFile(packageLockPath, 'utf8'));
+    const lockedPackages = packageLock.packages ?? {};
+    const relativeDir = path
+        .relative(path.dirname(packageLockPath), path.dirname(packageJsonPath))
+        .split(path.sep)
+        .join('/');
+
+    const toLibrary = (name: string, locked: NpmLockPackage) =>
+        locked.link
+            ? `${name}@workspace:${locked.resolved}`
+            : `${locked.name ?? name}@${locked.version}`;
+
+    const depEntries = new Map<string, string>();
+    for (const [name] of getDeclaredDependencies(packageJson)) {
+        let dir = relativeDir;
+        while (true) {
+            const locked =
+                lockedPackages[
+                    dir ? `${dir}/node_modules/${name}` : `node_modules/${name}`
+                ];
+            if (locked) {
+                depEntries.set(name, toLibrary(name, locked));
+                break;
+            }
+            if (!dir) {
+                break;
+            }
+            dir =
+                path.posix.dirname(dir) === '.' ? '' : path.posix.dirname(dir);
+        }
+    }
+
+    // Hoisted packages, e.g. transitive dependencies imported directly
+    for (const [packagePath, locked] of Object.entries(lockedPackages)) {
+        const match = packagePath.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+        if (match && !depEntries.has(match[1])) {
+            depEntries.set(match[1], toLibrary(match[1], locked));
+        }
+    }
+
+    return depEntries;
+}
+
+type PackageJson = {
+    name?: string;
+    version?: string;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+};
+
+/**
+ * Reads a Yarn project (classic v1 or Berry v2+ lockfile). Every locked
+ * package is included so that hoisted transitive dependencies resolve too,
+ * then the ranges declared in package.json pick the versions the project's own
+ * imports get. Aliases map to the package they point at
+ * (`"my-lodash": "npm:lodash@^3"` ➝ `lodash@3.10.1`), and `workspace:`
+ * dependencies keep their workspace reference.
+ */
+async function readYarnLockDependencies(
+    packageJsonPath: string,
+    yarnLockPath: string,
+): Promise<Map<string, string>> {
+    const packageJson: PackageJson = JSON.parse(
+        await fs.readFile(packageJsonPath, 'utf8'),
+    );
+    const yarnLockContent = await fs.readFile(yarnLockPath, 'utf8');
+    const lockedPackages =
+        getYarnLockfileVersion(yarnLockContent) ===
+        NodeLockfileVersion.YarnLockV1
+            ? parseYarnLockV1(yarnLockContent)
+            : parseYarnLockBerry(yarnLockContent);
+
+    const depEntries = new Map<string, string>();
+    for (const [descriptor, library] of lockedPackages) {
+        const { name } = parseDescriptor(descriptor);
+        if (!depEntries.has(name)) {
+            depEntries.set(name, library);
+        }
+    }
+
+    for (const [name, range] of getDeclaredDependencies(packageJson)) {
+        const library =
+            lockedPackages.get(`${name}@${range}`) ??
+            lockedPackages.get(`${name}@npm:${range}`); // Berry prefixes registry ranges
+        if (library) {
+            depEntries.set(name, library);
+        } else if (range.startsWith('workspace:')) {
+            depEntries.set(name, `${name}@${range}`);
+        }
+    }
+
+    return depEntries;
+}
+
+function getDeclaredDependencies(packageJson: PackageJson): [string, string][] {
+    return [
+        packageJson.peerDependencies,
+        packageJson.optionalDependencies,
+        packageJson.devDependencies,
+        packageJson.dependencies,
+    ].flatMap((dependencies) => Object.entries(dependencies ?? {}));
+}
+
+/**
+ * Splits a descriptor (`@scope/name@^1.0.0`, `alias@npm:lodash@^3`) into the
+ * package name and its range.
+ */
+function parseDescriptor(descriptor: string): { name: string; range: string } {
+    const separatorIndex = descriptor.indexOf('@', 1);
+    return separatorIndex === -1
+        ? { name: descriptor, range: '' }
+        : {
+              name: descriptor.slice(0, separatorIndex),
+              range: descriptor.slice(separatorIndex + 1),
+          };
+}
+
+// Returns descriptor => name@version, e.g. `my-lodash@npm:lodash@^3.10.0` ➝ `lodash@3.10.1`
+function parseYarnLockV1(content: string): Map<string, string> {
+    const lockedPackages = new Map<string, string>();
+
+    for (const [descriptor, { version }] of Object.entries(
+        yarnLockfile.parse(content).object,
+    )) {
+        const { name, range } = parseDescriptor(descriptor);
+        const packageName = range.startsWith('npm:')
+            ? parseDescriptor(range.slice('npm:'.length)).name
+            : name;
+        lockedPackages.set(descriptor, `${packageName}@${version}`);
+    }
+
+    return lockedPackages;
+}
+
+// Same as `parseYarnLockV1`, for the YAML lockfiles of Yarn 2+ (Berry)
+function parseYarnLockBerry(content: string): Map<string, string> {
+    const lockedPackages = new Map<string, string>();
+    const lockfile = yaml.load(content) as Record<
+        string,
+        { version?: string; resolution?: string }
+    >;
+
+    for (const [key, { version, resolution }] of Object.entries(lockfile)) {
+        if (key === '__metadata' || !version || !resolution) {
+            continue;
+        }
+
+        // The resolution names the actual package: `lodash@npm:3.10.1`, `util@workspace:packages/util`
+        const { name, range: reference } = parseDescriptor(resolution);
+        const library = reference.startsWith('workspace:')
+            ? resolution
+            : `${name}@${version}`;
+        for (const descriptor of key.split(/\s*,\s*/)) {
+            lockedPackages.set(descriptor, library);
+        }
+    }
+
+    return lockedPackages;
+}
+
+type PnpmImporter = {
+    dependencies?: Record<string, PnpmDependency>;
+    devDependencies?: Record<string, PnpmDependency>;
+    optionalDependencies?: Record<string, PnpmDependency>;
+};
+
+// Lockfile v5 maps names to versions, v6+ to { specifier, version }
+type PnpmDependency = string | { specifier?: string; version: string };
+
+type PnpmLockfile = PnpmImporter & {
+    lockfileVersion?: string | number;
+    importers?: Record<string, PnpmImporter>;
+    packages?: Record<string, unknown>;
+};
+
+/**
+ * Reads a pnpm-lock.yaml (lockfile v5, v6 or v9) into a map of project path
+ * => { library: library@version }. Single-package lockfiles describe one
+ * project; workspace lockfiles describe one importer per package, which
+ * becomes its own project when `pnpm-workspace.yaml` includes it. Every
+ * locked package is added after the importer's own dependencies, like the
+ * npm and Yarn lockfiles do.
+ */
+async function readPnpmLockDependencies(
+    pnpmLockPath: string,
+): Promise<DependencyMap> {
+    const lockDir = path.dirname(pnpmLockPath);
+    const lockfile = yaml.load(
+        await fs.readFile(pnpmLockPath, 'utf8'),
+    ) as PnpmLockfile;
+    const workspacePatterns = await readPnpmWorkspacePatterns(lockDir);
+
+    const lockedPackages = new Map<string, string>();
+    for (const dependencyPath of Object.keys(lockfile.packages ?? {})) {
+        const locked = parsePnpmDependencyPath(dependencyPath);
+        if (locked && !lockedPackages.has(locked.name)) {
+            lockedPackages.set(locked.name, `${locked.name}@${locked.version}`);
+        }
+    }
+
+    const depMap: DependencyMap = new Map();
+    const importers = lockfile.importers ?? { '.': lockfile };
+    for (const [importerPath, importer] of Object.entries(importers)) {
+        if (
+            importerPath !== '.' &&
+            workspacePatterns &&
+            micromatch([importerPath], workspacePatterns).length === 0
+        ) {
+            continue;
+        }
+
+        const depEntries = new Map<string, string>();
+        for (const [name, dependency] of [
+            importer.optionalDependencies,
+            importer.devDependencies,
+            importer.dependencies,
+        ].flatMap((dependencies) => Object.entries(dependencies ?? {}))) {
+            depEntries.set(
+                name,
+                resolvePnpmDependency(
+                    name,
+                    typeof dependency === 'string'
+                        ? dependency
+                        : dependency.version,
+                    importerPath,
+                ),
+            );
+        }
+        for (const [name, library] of lockedPackages) {
+            if (!depEntries.has(name)) {
+                depEntries.set(name, library);
+            }
+        }
+
+        depMap.set(path.join(lockDir, importerPath), depEntries);
+    }
+
     return depMap;
 }
 
+/**
+ * Turns the locked version of an importer's dependency into `name@version`.
+ * Besides plain versions (with peer suffixes `1.0.0(react@18.2.0)` or
+ * `1.0.0_react@18.2.0`), it can be an alias pointing at another package
+ * (`/lodash/3.10.1`, `/lodash@3.10.1` or `lodash@3.10.1`) or a link to a
+ * workspace package (`link:../util`).
+ */
+function resolvePnpmDependency(
+    name: string,
+    version: string,
+    importerPath: string,
+): string {
+    if (version.startsWith('link:')) {
+        const workspacePath = path.posix.join(
+            importerPath,
+            version.slice('link:'.length),
+        );
+        return `${name}@workspace:${workspacePath}`;
+    }
+    if (/^\d/.test(version)) {
+        return `${name}@${version.replace(/[(_].*$/, '')}`;
+    }
+
+    const aliased = parsePnpmDependencyPath(version);
+    return aliased
+        ? `${aliased.name}@${aliased.version}`
+        : `${name}@${version}`;
+}
+
+// Parses the keys of the `packages` section: `/name/1.0.0_peer` (v5), `/name@1.0.0(peer)` (v6), `name@1.0.0(peer)` (v9)
+function parsePnpmDependencyPath(
+    dependencyPath: string,
+): { name: string; version: string } | null {
+    const withoutPeers = dependencyPath.replace(/\(.*$/, '').replace(/^\//, '');
+
+    const v5Match = withoutPeers.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^/_]*)/);
+    if (v5Match) {
+        return { name: v5Match[1], version: v5Match[2] };
+    }
+
+    const { name, range } = parseDescriptor(withoutPeers);
+    return /^\d/.test(range) ? { name, version: range } : null;
+}
+
+// Returns the `packages` globs of pnpm-workspace.yaml, or null without a workspace
+async function readPnpmWorkspacePatterns(
+    lockDir: string,
+): Promise<string[] | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(
+            path.join(lockDir, 'pnpm-workspace.yaml'),
+            'utf8',
+        );
+    } catch {
+        return null;
+    }
+
+    const workspace = yaml.load(content) as { packages?: string[] } | null;
+    return workspace?.packages ?? null;
+}
+
 type PackageGroup = {
     packageJsonPath: string;
-    packageLockPath: string;
+    lockFilePath: string;
 };
 
 /**
- * Groups package.json and package-lock.json files based on their directory.
- * Only returns pairs where both files exist in the same folder.
+ * Groups each package.json with the lock file of its directory or, for
+ * workspace packages of a monorepo, the nearest one in a parent directory.
  */
 function groupPackageJsonAndLockFiles(
     packageJsonPaths: string[],
-    packageLockPaths: string[],
+    lockFilePaths: string[],
 ): PackageGroup[] {
-    const lockMap = new Map<string, string>(); // key: directory, value: package-lock.json path
+    const lockMap = new Map<string, string>(); // key: directory, value: lock file path
     const grouped: PackageGroup[] = [];
 
-    // Index all package-lock.json paths by their parent directory
-    for (const lockPath of packageLockPaths) {
+    // Index all lock file paths by their parent directory
+    for (const lockPath of lockFilePaths) {
         const dir = path.dirname(lockPath);
         lockMap.set(dir, lockPath);
     }
 
-    // Match each package.json to a lock file in the same directory
+    // Match each package.json to the lock file of the nearest directory
     for (const jsonPath of packageJsonPaths) {
-        const dir = path.dirname(jsonPath);
-        const lockPath = lockMap.get(dir);
+        let dir = path.dirname(jsonPath);
+        let lockPath = lockMap.get(dir);
+        while (!lockPath && path.dirname(dir) !== dir) {
+            dir = path.dirname(dir);
+            lockPath = lockMap.get(dir);
+        }
 
         if (lockPath) {
             grouped.push({
                 packageJsonPath: jsonPath,
-                packageLockPath: lockPath,
+                lockFilePath: lockPath,
             });
         }
     }
@@ -434,6 +1414,11 @@ function fallbackResolveImport(
         candidates.push(parts.slice(0, i).join('/'));
     }
 
+    // Virtual modules provided by a framework (e.g. astro:content → astro)
+    if (/^[\w-]+:/.test(importPath)) {
+        candidates.push(importPath.slice(0, importPath.indexOf(':')));
+    }
+
     // Match longest valid package
     for (const candidate of candidates.sort((a, b) => b.length - a.length)) {
         if (installedLibs.has(candidate)) {
@@ -441,7 +1426,103 @@ function fallbackResolveImport(
         }
     }
 
-    return 'No match found in lock file'; // no match
+    return noLockFileMatch;
+}
+
+const noLockFileMatch = 'No match found in lock file';
+
+/**
+ * Resolves a package missing from the lock file (or of a project without
+ * one) the way Node.js loads it: from the `node_modules` directory of the
+ * importing file or of its nearest parent having the package installed. When
+ * it is not installed, falls back to the semver range declared in the nearest
+ * package.json (`lodash@^4.17.0`). The lookup stops at the repository root.
+ */
+async function resolveUnlockedLibrary(
+    importPath: string,
+    filePath: string,
+    repoPath: string,
+): Promise<{ library: string; libraryResolution: LibraryResolution } | null> {
+    const packageName = getPackageName(importPath);
+    const dirs: string[] = [];
+    for (
+        let dir = path.dirname(filePath);
+        dir.startsWith(repoPath);
+        dir = path.dirname(dir)
+    ) {
+        dirs.push(dir);
+        if (dir === path.dirname(dir)) break;
+    }
+
+    for (const dir of dirs) {
+        const installed = await readPackageJson(
+            path.join(dir, 'node_modules', packageName, 'package.json'),
+        );
+        if (installed?.version) {
+            return {
+                library: `${packageName}@${installed.version}`,
+                libraryResolution: 'node_modules',
+            };
+        }
+    }
+
+    for (const dir of dirs) {
+        const packageJson = await readPackageJson(
+            path.join(dir, 'package.json'),
+        );
+        if (!packageJson) {
+            continue;
+        }
+        const range =
+            packageJson.dependencies?.[packageName] ??
+            packageJson.devDependencies?.[packageName] ??
+            packageJson.peerDependencies?.[packageName];
+        if (range) {
+            return {
+                library: `${packageName}@${range}`,
+                libraryResolution: 'package.json',
+            };
+        }
+    }
+
+    return null;
+}
+
+// `lodash/fp` ➝ `lodash`, `@scope/pkg/sub` ➝ `@scope/pkg`, `astro:content` ➝ `astro`
+function getPackageName(importPath: string): string {
+    if (/^[\w-]+:/.test(importPath)) {
+        return importPath.slice(0, importPath.indexOf(':'));
+    }
+    const parts = importPath.split('/');
+    return parts.slice(0, importPath.startsWith('@') ? 2 : 1).join('/');
+}
+
+// The same package.json files are read for every import of a directory
+const packageJsonCache = new Map<string, Promise<PackageJson | null>>();
+
+function readPackageJson(packageJsonPath: string): Promise<PackageJson | null> {
+    if (!packageJsonCache.has(packageJsonPath)) {
+        packageJsonCache.set(
+            packageJsonPath,
+            fs
+                .readFile(packageJsonPath, 'utf8')
+                .then((content) => JSON.parse(content) as PackageJson)
+                .catch(() => null),
+        );
+    }
+    return packageJsonCache.get(packageJsonPath)!;
+}
+
+// Calls that refer to a module by name without importing it, with the modifier they get
+const moduleReferenceCalls: Record<string, string> = {
+    'require.resolve': 'resolve',
+    'jest.mock': 'mock',
+    'vi.mock': 'mock',
+};
+
+// Sibling packages of a monorepo are internal to the repository, see `buildDependencyMap`
+function isWorkspaceLibrary(library: string): boolean {
+    return library.includes('@workspace:');
 }
 
 function isLocalImport(
@@ -535,14 +1616,6 @@ const javascriptExcludedDirectories = [
 ];
 
 const javascriptExcludedFilePatterns = [
-    '*.test.js',
-    '*.test.ts',
-    '*.test.jsx',
-    '*.test.tsx',
-    '*.spec.js',
-    '*.spec.ts',
-    '*.spec.jsx',
-    '*.spec.tsx',
     '*.d.ts',
     '*.min.js',
     'webpack.config.js',
@@ -553,3 +1626,17 @@ const javascriptExcludedFilePatterns = [
     '.prettierrc.js',
     'jest.config.js',
 ];
+
+const javascriptTestExclusions: ExclusionRules = {
+    directories: [],
+    filePatterns: [
+        '*.test.js',
+        '*.test.ts',
+        '*.test.jsx',
+        '*.test.tsx',
+        '*.spec.js',
+        '*.spec.ts',
+        '*.spec.jsx',
+        '*.spec.tsx',
+    ],
+};
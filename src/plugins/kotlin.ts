@@ -0,0 +1,163 @@
+import * as fs from 'fs/promises';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+import { DeclaredArtifact } from './maven.util';
+import {
+    analyzeJvmProjects,
+    getLibraryAndImportedEntity,
+    ImportedClassMetadata,
+    isJdkModule,
+    isLocalImport,
+    javaExcludedDirectories,
+} from './java';
+
+export const kotlinPlugin: Plugin = {
+    name: 'kotlin',
+    extensions: ['.kt', '.kts'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const { groupIds, importedClassToJarMaps, declaredArtifacts } =
+        await analyzeJvmProjects(groupedFilesByExtensions);
+    const localPackages = [...groupIds, ...settings.localImportPrefixes];
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: javaExcludedDirectories,
+            filePatterns: kotlinExcludedFilePatterns,
+        },
+        settings,
+        kotlinTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'kotlin'),
+        async extractImports(filePath: string, repoPath: string) {
+            // Files outside every Maven/Gradle project are resolved from
+            // the repo root, where no jar is known
+            const projectPath =
+                findProjectPath(
+                    filePath,
+                    Array.from(importedClassToJarMaps.keys()),
+                ) || repoPath;
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath,
+                localPackages,
+                importedClassToJarMaps.get(projectPath) ?? new Map(),
+                declaredArtifacts.get(projectPath),
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    groupIds: string[],
+    importedClassToJarMap: Map<string, ImportedClassMetadata>,
+    declaredArtifacts: DeclaredArtifact[] = [],
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const code = stripCommentsAndStrings(
+            await fs.readFile(filePath, 'utf8'),
+        );
+
+        const importStatements: ImportStatement[] = [];
+        // Kotlin has no `import static`; functions and properties are
+        // imported by name like classes, and any import can be renamed.
+        const importRegex =
+            /^\s*import\s+([\w.`]+?)(\.\*)?(?:\s+as\s+([\w`]+))?\s*;?\s*$/gm;
+        let match;
+        while ((match = importRegex.exec(code))) {
+            const importedClass = match[1].replace(/`/g, '');
+
+            if (
+                isLocalImport(importedClass, groupIds) ||
+                isKotlinStdlibModule(importedClass)
+            ) {
+                continue;
+            }
+
+            const isWildcard = match[2] !== undefined;
+            const alias = match[3]?.replace(/`/g, '');
+            const { library, importedEntity } = getLibraryAndImportedEntity(
+                importedClass,
+                false,
+                isWildcard,
+                importedClassToJarMap,
+                declaredArtifacts,
+            );
+
+            if (isJdkModule(library)) {
+                continue;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: importedEntity,
+                modifiers: [
+                    alias && `alias ${alias}`,
+                    isWildcard && 'wildcard',
+                ].filter(Boolean) as string[],
+                language: getLanguageByExtension(extension),
+                library: library,
+                fullImport: match[0].trim(),
+            });
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+export function isKotlinStdlibModule(moduleName: string): boolean {
+    return moduleName.startsWith('kotlin.') || isJdkModule(moduleName);
+}
+
+/**
+ * Blanks out comments and string literals (raw `"""` strings included),
+ * keeping line breaks, so `import` lines inside them are not matched.
+ */
+function stripCommentsAndStrings(source: string): string {
+    return source.replace(
+        /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"""[\s\S]*?"""|"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+        (whole) => whole.replace(/[^\n]/g, ' '),
+    );
+}
+
+// Gradle scripts are read by the JVM project analysis instead
+const kotlinExcludedFilePatterns = ['build.gradle.kts', 'settings.gradle.kts'];
+
+const kotlinTestExclusions: ExclusionRules = {
+    directories: [],
+    filePatterns: ['*Test.kt', '*Tests.kt', '*Spec.kt'],
+};
@@ -0,0 +1,449 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import AdmZip from 'adm-zip';
+
+/**
+ * Maven coordinates of a dependency. Gradle resolves from Maven repositories,
+ * so its lockfiles use the same coordinates.
+ */
+export type DeclaredArtifact = {
+    groupId: string;
+    artifactId: string;
+    version: string;
+};
+
+export function getLocalMavenRepository(): string {
+    return (
+        process.env.MAVEN_LOCAL_REPOSITORY ??
+        path.join(os.homedir(), '.m2', 'repository')
+    );
+}
+
+type PomDependency = {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    scope?: string;
+    type?: string;
+    optional: boolean;
+};
+
+type Pom = {
+    groupId?: string;
+    artifactId?: string;
+    version?: string;
+    parent?: {
+        groupId: string;
+        artifactId: string;
+        version: string;
+        relativePath?: string;
+    };
+    properties: Map<string, string>;
+    dependencies: PomDependency[];
+    managedDependencies: PomDependency[];
+    modules: string[];
+};
+
+/**
+ * The parts of a pom that matter after inheritance: properties and managed
+ * versions from the whole parent chain (and imported BOMs) are merged in.
+ */
+type EffectivePom = {
+    properties: Map<string, string>;
+    managedVersions: Map<string, string>; // groupId:artifactId ➝ version
+    dependencies: PomDependency[];
+    modules: string[];
+};
+
+/**
+ * Resolves the dependencies of a Maven project from source, without running
+ * Maven: the declared dependencies of the pom (and of its modules) get their
+ * versions through parent POMs, `<properties>` and `<dependencyManagement>`,
+ * and their transitive compile/runtime dependencies are read from the poms in
+ * the local repository. Like Maven, the nearest declaration of an artifact
+ * wins.
+ */
+export async function resolveMavenDependencies(
+    pomPath: string,
+    repository: string = getLocalMavenRepository(),
+): Promise<DeclaredArtifact[]> {
+    const cache = createPomCache(repository);
+    const resolved = new Map<string, DeclaredArtifact>();
+
+    const projectPoms = await collectModulePoms(pomPath, cache);
+    const localArtifacts = new Set(
+        projectPoms.map(({ pom }) => `${pom.groupId}:${pom.artifactId}`),
+    );
+
+    let queue: PomDependency[] = projectPoms.flatMap(({ effective }) =>
+        effective.dependencies
+            .filter((dependency) => dependency.scope !== 'system')
+            .map((dependency) => withManagedVersion(dependency, effective)),
+    );
+    while (queue.length > 0) {
+        const next: PomDependency[] = [];
+        for (const dependency of queue) {
+            const key = `${dependency.groupId}:${dependency.artifactId}`;
+            if (
+                resolved.has(key) ||
+                localArtifacts.has(key) ||
+                !dependency.version
+            ) {
+                continue;
+            }
+            const artifact = {
+                groupId: dependency.groupId,
+                artifactId: dependency.artifactId,
+                version: dependency.version,
+            };
+            resolved.set(key, artifact);
+
+            const effective = await loadEffectivePom(
+                getRepositoryPath(repository, artifact, 'pom'),
+                cache,
+            );
+            if (!effective) {
+                continue;
+            }
+            next.push(
+                ...effective.dependencies
+                    .filter(
+                        (transitive) =>
+                            !transitive.optional &&
+                            ['compile', 'runtime'].includes(
+                                transitive.scope ?? 'compile',
+                            ),
+                    )
+                    .map((transitive) =>
+                        withManagedVersion(transitive, effective),
+                    ),
+            );
+        }
+        queue = next;
+    }
+
+    return Array.from(resolved.values());
+}
+
+async function collectModulePoms(
+    pomPath: string,
+    cache: PomCache,
+): Promise<{ pom: Pom; effective: EffectivePom }[]> {
+    const pom = await readPom(pomPath, cache);
+    const effective = await loadEffectivePom(pomPath, cache);
+    if (!pom || !effective) {
+        return [];
+    }
+
+    const modulePoms = [{ pom, effective }];
+    for (const module of effective.modules) {
+        const modulePath = path.join(path.dirname(pomPath), module);
+        const modulePomPath = modulePath.endsWith('.xml')
+            ? modulePath
+            : path.join(modulePath, 'pom.xml');
+        modulePoms.push(...(await collectModulePoms(modulePomPath, cache)));
+    }
+    return modulePoms;
+}
+
+function withManagedVersion(
+    dependency: PomDependency,
+    effective: EffectivePom,
+): PomDependency {
+    const groupId = interpolate(dependency.groupId, effective.properties);
+    const version =
+        dependency.version ??
+        effective.managedVersions.get(`${groupId}:${dependency.artifactId}`);
+    return {
+        ...dependency,
+        groupId,
+        version:
+            version &&
+            normalizeVersion(interpolate(version, effective.properties)),
+    };
+}
+
+// Soft requirements like [1.2.3] or [1.2,2.0) are reduced to their lower bound
+function normalizeVersion(version: string): string {
+    return version.replace(/^[[(]\s*/, '').replace(/\s*[,)\]].*$/, '');
+}
+
+function interpolate(value: string, properties: Map<string, string>): string {
+    let result = value;
+    // Properties may reference other properties; bound the passes for cycles
+    for (let i = 0; i < 10 && result.includes('${'); i++) {
+        result = result.replace(
+            /\$\{([^}]+)\}/g,
+            (whole, name) => properties.get(name) ?? whole,
+        );
+    }
+    return result;
+}
+
+type PomCache = {
+    repository: string;
+    poms: Map<string, Promise<Pom | null>>;
+    effectivePoms: Map<string, Promise<EffectivePom | null>>;
+};
+
+function createPomCache(repository: string): PomCache {
+    return { repository, poms: new Map(), effectivePoms: new Map() };
+}
+
+function getRepositoryPath(
+    repository: string,
+    { groupId, artifactId, version }: DeclaredArtifact,
+    extension: 'pom' | 'jar',
+): string {
+    return path.join(
+        repository,
+        ...groupId.split('.'),
+        artifactId,
+        version,
+        `${artifactId}-${version}.${extension}`,
+    );
+}
+
+function readPom(pomPath: string, cache: PomCache): Promise<Pom | null> {
+    let pom = cache.poms.get(pomPath);
+    if (!pom) {
+        pom = fs
+            .readFile(pomPath, 'utf8')
+            .then(parsePom)
+            .catch(() => null);
+        cache.poms.set(pomPath, pom);
+    }
+    return pom;
+}
+
+function loadEffectivePom(
+    pomPath: string,
+    cache: PomCache,
+): Promise<EffectivePom | null> {
+    let effective = cache.effectivePoms.get(pomPath);
+    if (!effective) {
+        effective = buildEffectivePom(pomPath, cache);
+        cache.effectivePoms.set(pomPath, effective);
+    }
+    return effective;
+}
+
+async function buildEffectivePom(
+    pomPath: string,
+    cache: PomCache,
+): Promise<EffectivePom | null> {
+    const pom = await readPom(pomPath, cache);
+    if (!pom) {
+        return null;
+    }
+
+    const parent = pom.parent
+        ? await loadEffectivePom(
+              await findParentPom(pomPath, pom, cache),
+              cache,
+          )
+        : null;
+
+    const groupId = pom.groupId ?? pom.parent?.groupId ?? '';
+    const version = pom.version ?? pom.parent?.version ?? '';
+    const properties = new Map([
+        ...(parent?.properties ?? []),
+        ...pom.properties,
+        ['project.groupId', groupId],
+        ['project.artifactId', pom.artifactId ?? ''],
+        ['project.version', version],
+        ['pom.version', version],
+        ['version', version],
+        ['project.parent.groupId', pom.parent?.groupId ?? ''],
+        ['project.parent.version', pom.parent?.version ?? ''],
+    ]);
+
+    const managedVersions = new Map(parent?.managedVersions ?? []);
+    for (const managed of pom.managedDependencies) {
+        const coordinates = {
+            groupId: interpolate(managed.groupId, properties),
+            artifactId: managed.artifactId,
+            version: interpolate(managed.version ?? '', properties),
+        };
+
+        if (managed.scope === 'import' && managed.type === 'pom') {
+            // BOM: its managed versions are merged in
+            const bom = await loadEffectivePom(
+                getRepositoryPath(cache.repository, coordinates, 'pom'),
+                cache,
+            );
+            for (const [key, bomVersion] of bom?.managedVersions ?? []) {
+                if (!managedVersions.has(key)) {
+                    managedVersions.set(key, bomVersion);
+                }
+            }
+        } else if (coordinates.version) {
+            managedVersions.set(
+                `${coordinates.groupId}:${coordinates.artifactId}`,
+                coordinates.version,
+            );
+        }
+    }
+
+    return {
+        properties,
+        managedVersions,
+        dependencies: [...(parent?.dependencies ?? []), ...pom.dependencies],
+        modules: pom.modules,
+    };
+}
+
+/**
+ * The parent is looked up at its `<relativePath>` (`../pom.xml` by default)
+ * when the pom found there has the right coordinates, and in the local
+ * repository otherwise.
+ */
+async function findParentPom(
+    pomPath: string,
+    pom: Pom,
+    cache: PomCache,
+): Promise<string> {
+    const parent = pom.parent!;
+    const relativePath = parent.relativePath ?? '../pom.xml';
+    if (relativePath) {
+        let candidate = path.resolve(path.dirname(pomPath), relativePath);
+        if (!candidate.endsWith('.xml')) {
+            candidate = path.join(candidate, 'pom.xml');
+        }
+        const local = await readPom(candidate, cache);
+        if (
+            local?.artifactId === parent.artifactId &&
+            (local.groupId ?? local.parent?.groupId) === parent.groupId
+        ) {
+            return candidate;
+        }
+    }
+    return getRepositoryPath(cache.repository, parent, 'pom');
+}
+
+function parsePom(content: string): Pom {
+    const cleaned = content.replace(/<!--[\s\S]*?-->/g, '');
+    const parentBlock = getBlock(cleaned, 'parent');
+    const withoutParent = cleaned.replace(/<parent>[\s\S]*?<\/parent>/, '');
+    const managementBlock = getBlock(withoutParent, 'dependencyManagement');
+    const withoutManagement = withoutParent.replace(
+        /<dependencyManagement>[\s\S]*?<\/dependencyManagement>/,
+        '',
+    );
+    // Profiles and plugins declare their own dependencies, which are ignored
+    const projectLevel = withoutManagement
+        .replace(/<profiles>[\s\S]*?<\/profiles>/, '')
+        .replace(/<build>[\s\S]*?<\/build>/, '');
+
+    const properties = new Map<string, string>();
+    const propertiesBlock = getBlock(projectLevel, 'properties') ?? '';
+    for (const match of propertiesBlock.matchAll(
+        /<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g,
+    )) {
+        properties.set(match[1], match[2]);
+    }
+
+    return {
+        groupId: getTagValue(stripBlocks(projectLevel), 'groupId'),
+        artifactId: getTagValue(stripBlocks(projectLevel), 'artifactId'),
+        version: getTagValue(stripBlocks(projectLevel), 'version'),
+        parent: parentBlock
+            ? {
+                  groupId: getTagValue(parentBlock, 'groupId') ?? '',
+                  artifactId: getTagValue(parentBlock, 'artifactId') ?? '',
+                  version: getTagValue(parentBlock, 'version') ?? '',
+                  relativePath: /<relativePath\s*\/>/.test(parentBlock)
+                      ? ''
+                      : getTagValue(parentBlock, 'relativePath'),
+              }
+            : undefined,
+        properties,
+        dependencies: parseDependencies(getBlock(projectLevel, 'dependencies')),
+        managedDependencies: parseDependencies(
+            getBlock(managementBlock ?? '', 'dependencies'),
+        ),
+        modules: Array.from(
+            (getBlock(projectLevel, 'modules') ?? '').matchAll(
+                /<module>\s*([^<]+?)\s*<\/module>/g,
+            ),
+        ).map((match) => match[1]),
+    };
+}
+
+function parseDependencies(block: string | undefined): PomDependency[] {
+    return Array.from(
+        (block ?? '').matchAll(/<dependency>([\s\S]*?)<\/dependency>/g),
+    )
+        .map((match) => stripBlocks(match[1]))
+        .map((dependency) => ({
+            groupId: getTagValue(dependency, 'groupId') ?? '',
+            artifactId: getTagValue(dependency, 'artifactId') ?? '',
+            version: getTagValue(dependency, 'version'),
+            scope: getTagValue(dependency, 'scope'),
+            type: getTagValue(dependency, 'type'),
+            optional: getTagValue(dependency, 'optional') === 'true',
+        }))
+        .filter(({ groupId, artifactId }) => groupId && artifactId);
+}
+
+// Drops nested blocks, so only the direct children's values remain
+function stripBlocks(xml: string): string {
+    return xml.replace(
+        /<(exclusions|properties|dependencies|modules|repositories|pluginRepositories|reporting|distributionManagement|scm|developers|licenses|organization|issueManagement|ciManagement)>[\s\S]*?<\/\1>/g,
+        '',
+    );
+}
+
+function getBlock(xml: string, tag: string): string | undefined {
+    return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1];
+}
+
+function getTagValue(xml: string, tag: string): string | undefined {
+    return xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+}
+
+/**
+ * Locates the JARs of the given artifacts in the local Maven repository.
+ */
+export async function findMavenRepositoryJars(
+    artifacts: DeclaredArtifact[],
+    repository: string = getLocalMavenRepository(),
+): Promise<Map<DeclaredArtifact, string>> {
+    const jars = new Map<DeclaredArtifact, string>();
+
+    for (const artifact of artifacts) {
+        const jarPath = getRepositoryPath(repository, artifact, 'jar');
+        try {
+            await fs.access(jarPath);
+            jars.set(artifact, jarPath);
+        } catch {
+            // pom-only artifact or not downloaded
+        }
+    }
+
+    return jars;
+}
+
+/**
+ * Lists the classes packaged in a JAR as fully qualified names. Nested classes
+ * and `module-info`/`package-info` descriptors are skipped, and classes of
+ * multi-release JARs (`META-INF/versions/<n>/`) are listed once.
+ */
+export function listJarClasses(jarPath: string): string[] {
+    const classes = new Set<string>();
+    for (const entry of new AdmZip(jarPath).getEntries()) {
+        const name = entry.entryName.replace(/^META-INF\/versions\/\d+\//, '');
+        if (
+            entry.isDirectory ||
+            !name.endsWith('.class') ||
+            name.includes('$') ||
+            name.startsWith('META-INF/') ||
+            /(^|\/)(module|package)-info\.class$/.test(name)
+        ) {
+            continue;
+        }
+        classes.add(name.slice(0, -'.class'.length).replace(/\//g, '.'));
+    }
+    return Array.from(classes);
+}
@@ -0,0 +1,475 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { parse } from 'jsonc-parser';
+import * as babelParser from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+
+/**
+ * Import prefixes that resolve to the project's own files rather than to a
+ * package, by the directory of the config declaring them (e.g. `@` for
+ * `import Button from '@/components/Button'`). They come from:
+ * - the effective `baseUrl` and `paths` of each tsconfig/jsconfig, following
+ *   `extends` chains and project `references`
+ * - `package.json` subpath imports (`#internal/*`)
+ * - Vite and webpack `resolve.alias`, and Babel's module-resolver plugin
+ */
+export type LocalImportPrefixes = Map<string, Set<string>>;
+
+export async function findLocalImportPrefixes(
+    groupedFilesByExtensions: Map<string, string[]>,
+): Promise<LocalImportPrefixes> {
+    const files = Array.from(groupedFilesByExtensions.values()).flat();
+    const prefixes: LocalImportPrefixes = new Map();
+    // Keyed by absolute directory, whether the repo path is relative or not
+    const addPrefixes = (configPath: string, configPrefixes: string[]) => {
+        const configDir = path.dirname(path.resolve(configPath));
+        if (!prefixes.has(configDir)) {
+            prefixes.set(configDir, new Set());
+        }
+        for (const prefix of configPrefixes) {
+            if (prefix.length > 0) {
+                prefixes.get(configDir)!.add(prefix);
+            }
+        }
+    };
+
+    // Referenced projects are often not named tsconfig.json (tsconfig.app.json)
+    const tsConfigPaths = files.filter((file) =>
+        /^[jt]sconfig(\..+)?\.json$/.test(path.basename(file)),
+    );
+    const visitedTsConfigs = new Set<string>();
+    while (tsConfigPaths.length > 0) {
+        const configPath = path.resolve(tsConfigPaths.shift()!);
+        if (visitedTsConfigs.has(configPath)) {
+            continue;
+        }
+        visitedTsConfigs.add(configPath);
+
+        try {
+            const { compilerOptions, references } =
+                await readTsConfig(configPath);
+            addPrefixes(configPath, [
+                ...Object.keys(compilerOptions.paths ?? {}).map(
+                    getPatternPrefix,
+                ),
+                ...(compilerOptions.baseUrl
+                    ? await listModuleNames(compilerOptions.baseUrl)
+                    : []),
+            ]);
+            tsConfigPaths.push(...references);
+        } catch (err) {
+            console.error(`Failed to parse js/tsconfig: ${configPath}`, err);
+        }
+    }
+
+    for (const file of files) {
+        const fileName = path.basename(file);
+        try {
+            if (fileName === 'package.json') {
+                addPrefixes(file, await readPackageJsonPrefixes(file));
+            } else if (bundlerConfigRegex.test(fileName)) {
+                addPrefixes(file, await readBundlerConfigPrefixes(file));
+            } else if (babelJsonConfigRegex.test(fileName)) {
+                const babelConfig: BabelConfig = parse(
+                    await fs.readFile(file, 'utf8'),
+                );
+                addPrefixes(
+                    file,
+                    await getModuleResolverPrefixes(babelConfig, file),
+                );
+            }
+        } catch (err) {
+            console.error(`Failed to read import aliases from ${file}`, err);
+        }
+    }
+
+    return prefixes;
+}
+
+// The prefixes of every config whose directory contains the file
+export function getLocalImportPrefixes(
+    filePath: string,
+    localImportPrefixes: LocalImportPrefixes,
+): Set<string> {
+    const filePrefixes = new Set<string>();
+    const absoluteFilePath = path.resolve(filePath);
+    for (const [configDir, prefixes] of localImportPrefixes) {
+        if (absoluteFilePath.startsWith(configDir + path.sep)) {
+            prefixes.forEach((prefix) => filePrefixes.add(prefix));
+        }
+    }
+    return filePrefixes;
+}
+
+interface TsConfig {
+    extends?: string | string[];
+    compilerOptions?: {
+        baseUrl?: string;
+        paths?: Record<string, string[]>;
+    };
+    references?: { path: string }[];
+}
+
+type EffectiveTsConfig = {
+    compilerOptions: {
+        baseUrl?: string; // absolute
+        paths?: Record<string, string[]>;
+    };
+    references: string[]; // absolute paths of the referenced configs
+};
+
+/**
+ * Reads a tsconfig/jsconfig with the compiler options inherited from the
+ * configs it extends, the later ones overriding the earlier ones as
+ * TypeScript does. References are not inherited.
+ */
+async function readTsConfig(
+    configPath: string,
+    extendedBy: string[] = [],
+): Promise<EffectiveTsConfig> {
+    if (extendedBy.includes(configPath)) {
+        throw new Error(`Circular extends: ${[...extendedBy, configPath]}`);
+    }
+
+    const configDir = path.dirname(configPath);
+    const config: TsConfig = parse(await fs.readFile(configPath, 'utf8'));
+    const compilerOptions: EffectiveTsConfig['compilerOptions'] = {};
+
+    for (const extended of [config.extends ?? []].flat()) {
+        const extendedPath = await resolveExtendedTsConfig(extended, configDir);
+        if (!extendedPath) {
+            console.warn(
+                `Could not resolve "${extended}" extended by ${configPath}`,
+            );
+            continue;
+        }
+        const extendedConfig = await readTsConfig(extendedPath, [
+            ...extendedBy,
+            configPath,
+        ]);
+        Object.assign(compilerOptions, extendedConfig.compilerOptions);
+    }
+
+    // baseUrl is relative to the config declaring it
+    const { baseUrl, paths } = config.compilerOptions ?? {};
+    if (baseUrl !== undefined) {
+        compilerOptions.baseUrl = path.resolve(configDir, baseUrl);
+    }
+    if (paths) {
+        compilerOptions.paths = paths;
+    }
+
+    const references = await Promise.all(
+        (config.references ?? []).map(async (reference) => {
+            const referencePath = path.resolve(configDir, reference.path);
+            return (await isFile(referencePath))
+                ? referencePath
+                : path.join(referencePath, 'tsconfig.json');
+        }),
+    );
+
+    return { compilerOptions, references };
+}
+
+/**
+ * `extends` is either a path relative to the config (`./tsconfig.base.json`,
+ * `.json` optional) or a module specifier looked up in `node_modules` like
+ * Node.js does (`@tsconfig/node20/tsconfig.json`, `@tsconfig/strictest`).
+ */
+async function resolveExtendedTsConfig(
+    specifier: string,
+    configDir: string,
+): Promise<string | null> {
+    const candidates = (base: string) => [
+        base,
+        `${base}.json`,
+        path.join(base, 'tsconfig.json'),
+    ];
+
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        return await findFile(candidates(path.resolve(configDir, specifier)));
+    }
+
+    let dir = configDir;
+    while (true) {
+        const packagePath = path.join(dir, 'node_modules', specifier);
+        const found = await findFile([
+            ...(await readPackageTsConfigField(packagePath)),
+            ...candidates(packagePath),
+        ]);
+        if (found) {
+            return found;
+        }
+        if (path.dirname(dir) === dir) {
+            return null;
+        }
+        dir = path.dirname(dir);
+    }
+}
+
+// A package may point to its config with a `tsconfig` field in package.json
+async function readPackageTsConfigField(packagePath: string) {
+    try {
+        const { tsconfig } = JSON.parse(
+            await fs.readFile(path.join(packagePath, 'package.json'), 'utf8'),
+        );
+        return typeof tsconfig === 'string'
+            ? [path.join(packagePath, tsconfig)]
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Local subpath imports of a package: `"imports": { "#internal/*":
+ * "./src/internal/*.js" }`. Targets that are packages
+ * (`"#dep": "dep-polyfill"`) are external and not reported.
+ */
+async function readPackageJsonPrefixes(
+    packageJsonPath: string,
+): Promise<string[]> {
+    const packageJson: {
+        imports?: Record<string, unknown>;
+        babel?: BabelConfig;
+    } = JSON.parse(await fs.readFile(packageJsonPath, 'utf8'));
+
+    return [
+        ...Object.entries(packageJson.imports ?? {})
+            .filter(([, target]) => isLocalImportTarget(target))
+            .map(([key]) => getPatternPrefix(key)),
+        ...(packageJson.babel
+            ? await getModuleResolverPrefixes(
+                  packageJson.babel,
+                  packageJsonPath,
+              )
+            : []),
+    ];
+}
+
+// Targets can be nested in conditions: { "node": "./a.js", "default": "./b.js" }
+function isLocalImportTarget(target: unknown): boolean {
+    if (typeof target === 'string') {
+        return target.startsWith('./');
+    }
+    if (target && typeof target === 'object') {
+        return Object.values(target).some(isLocalImportTarget);
+    }
+    return false;
+}
+
+type BabelConfig = {
+    plugins?: (string | [string, ModuleResolverOptions?])[];
+};
+
+type ModuleResolverOptions = {
+    root?: string | string[];
+    alias?: Record<string, unknown>;
+};
+
+// .babelrc, .babelrc.json, babel.config.json
+async function getModuleResolverPrefixes(
+    babelConfig: BabelConfig,
+    configPath: string,
+): Promise<string[]> {
+    const prefixes: string[] = [];
+    for (const plugin of babelConfig.plugins ?? []) {
+        if (!Array.isArray(plugin) || !isModuleResolver(plugin[0])) {
+            continue;
+        }
+        const { root, alias } = plugin[1] ?? {};
+        prefixes.push(
+            ...getAliasPrefixes(
+                Object.entries(alias ?? {}).map(([key, target]) => [
+                    key,
+                    typeof target === 'string' ? target : null,
+                ]),
+            ),
+        );
+        for (const rootDir of [root ?? []].flat()) {
+            prefixes.push(
+                ...(await listModuleNames(
+                    path.resolve(path.dirname(configPath), rootDir),
+                )),
+            );
+        }
+    }
+    return prefixes;
+}
+
+/**
+ * JavaScript configs are read statically: every `alias` object
+ * (`{ '@': path.resolve(__dirname, 'src') }`) or Vite alias array
+ * (`[{ find: '@', replacement: ... }]`) counts, as well as the `root` of
+ * Babel's module-resolver plugin.
+ */
+async function readBundlerConfigPrefixes(configPath: string) {
+    const ast = babelParser.parse(await fs.readFile(configPath, 'utf8'), {
+        sourceType: 'unambiguous',
+        plugins: ['typescript'],
+    });
+
+    const aliases: [string, string | null][] = [];
+    const rootDirs: string[] = [];
+    traverse(ast, {
+        ObjectProperty(nodePath) {
+            const key = getPropertyName(nodePath.node);
+            const value = nodePath.node.value;
+
+            if (key === 'alias' && value.type === 'ObjectExpression') {
+                for (const property of value.properties) {
+                    const name =
+                        property.type === 'ObjectProperty' &&
+                        getPropertyName(property);
+                    if (name) {
+                        aliases.push([name, getStringValue(property.value)]);
+                    }
+                }
+            } else if (key === 'alias' && value.type === 'ArrayExpression') {
+                for (const element of value.elements) {
+                    if (element?.type !== 'ObjectExpression') continue;
+                    const properties = element.properties.filter(
+                        (property) => property.type === 'ObjectProperty',
+                    );
+                    const find = properties.find(
+                        (property) => getPropertyName(property) === 'find',
+                    );
+                    const replacement = properties.find(
+                        (property) =>
+                            getPropertyName(property) === 'replacement',
+                    );
+                    const name = find && getStringValue(find.value);
+                    if (name) {
+                        aliases.push([
+                            name,
+                            replacement
+                                ? getStringValue(replacement.value)
+                                : null,
+                        ]);
+                    }
+                }
+            } else if (key === 'root' && isModuleResolverOptions(nodePath)) {
+                const roots =
+                    value.type === 'ArrayExpression' ? value.elements : [value];
+                for (const root of roots) {
+                    const rootDir = root && getStringValue(root);
+                    if (rootDir) rootDirs.push(rootDir);
+                }
+            }
+        },
+    });
+
+    const prefixes = getAliasPrefixes(aliases);
+    for (const rootDir of rootDirs) {
+        prefixes.push(
+            ...(await listModuleNames(
+                path.resolve(path.dirname(configPath), rootDir),
+            )),
+        );
+    }
+    return prefixes;
+}
+
+/**
+ * Keeps the aliases of the project's own files. An alias whose target is a
+ * plain string naming a package (`vue: 'vue/dist/vue.esm-bundler.js'`) is
+ * external; computed targets (`path.resolve(__dirname, 'src')`) are local.
+ */
+function getAliasPrefixes(aliases: [string, string | null][]): string[] {
+    return aliases
+        .filter(([name]) => !name.startsWith('^')) // module-resolver regexes
+        .filter(
+            ([, target]) =>
+                target === null ||
+                target.startsWith('.') ||
+                path.isAbsolute(target),
+        )
+        .map(([name]) => getPatternPrefix(name.replace(/\$$/, ''))); // webpack exact match
+}
+
+// `['module-resolver', { root: [...] }]`
+function isModuleResolverOptions(nodePath: NodePath<ObjectProperty>) {
+    const options = nodePath.parentPath;
+    const plugin = options.parentPath;
+    if (plugin?.node.type !== 'ArrayExpression') {
+        return false;
+    }
+    const [name, pluginOptions] = plugin.node.elements;
+    return (
+        pluginOptions === options.node &&
+        !!name &&
+        isModuleResolver(getStringValue(name))
+    );
+}
+
+function isModuleResolver(pluginName: unknown): boolean {
+    return (
+        pluginName === 'module-resolver' ||
+        pluginName === 'babel-plugin-module-resolver'
+    );
+}
+
+function getPropertyName(property: ObjectProperty): string | null {
+    if (property.key.type === 'Identifier' && !property.computed) {
+        return property.key.name;
+    }
+    return getStringValue(property.key);
+}
+
+function getStringValue(node: NodePath['node']): string | null {
+    return node.type === 'StringLiteral' ? node.value : null;
+}
+
+// `@/*` ➝ `@`, `#internal/*` ➝ `#internal`, `~` ➝ `~`
+function getPatternPrefix(pattern: string): string {
+    return pattern.replace(/\/?\*.*$/, '').replace(/\/$/, '');
+}
+
+/**
+ * With a `baseUrl` (or a module-resolver `root`), the top-level directories
+ * and modules of that directory can be imported without a relative path
+ * (`import Button from 'components/Button'` for `src/components/Button.tsx`).
+ */
+async function listModuleNames(dir: string): Promise<string[]> {
+    try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        return entries
+            .filter(
+                (entry) =>
+                    !entry.name.startsWith('.') &&
+                    entry.name !== 'node_modules' &&
+                    (entry.isDirectory() || /\.[cm]?[jt]sx?$/.test(entry.name)),
+            )
+            .map((entry) =>
+                entry.isDirectory()
+                    ? entry.name
+                    : entry.name.replace(/\.[^.]+$/, ''),
+            );
+    } catch {
+        return [];
+    }
+}
+
+async function findFile(candidates: string[]): Promise<string | null> {
+    for (const candidate of candidates) {
+        if (await isFile(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+type ObjectProperty = Extract<NodePath['node'], { type: 'ObjectProperty' }>;
+
+const bundlerConfigRegex =
+    /^(vite|vitest|webpack(\.[\w-]+)?|babel)\.config\.[cm]?[jt]s$|^\.babelrc\.[cm]?js$/;
+
+const babelJsonConfigRegex = /^(\.babelrc(\.json)?|babel\.config\.json)$/;
@@ -0,0 +1,359 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const phpPlugin: Plugin = {
+    name: 'php',
+    extensions: ['.php'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const composerJsonFiles = (
+        groupedFilesByExtensions.get('.json') ?? []
+    ).filter((file) => path.basename(file) === 'composer.json');
+    const composerProjects = await analyzeComposerProjects(composerJsonFiles);
+    // Namespaces from the config file are matched like autoload prefixes (`Acme\`)
+    for (const project of composerProjects.values()) {
+        project.localPrefixes.push(
+            ...settings.localImportPrefixes.map((prefix) =>
+                prefix.endsWith('\\') ? prefix : `${prefix}\\`,
+            ),
+        );
+    }
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: phpExcludedDirectories,
+            filePatterns: phpExcludedFilePatterns,
+        },
+        settings,
+        phpTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'php'),
+        async extractImports(filePath: string, repoPath: string) {
+            // Files outside every composer project are resolved from the
+            // repo root, where no package is known
+            const projectPath =
+                findProjectPath(
+                    filePath,
+                    Array.from(composerProjects.keys()),
+                ) || repoPath;
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath,
+                composerProjects.get(projectPath) ?? {
+                    localPrefixes: [],
+                    packagePrefixes: [],
+                },
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    composerProject: ComposerProject,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const importStatements: ImportStatement[] = [];
+        for (const { clauses, fullImport } of parseUseDeclarations(
+            fileContent,
+        )) {
+            // `use A\B, C\D;` can import from several packages at once
+            const clausesByLibrary = new Map<string | null, UseClause[]>();
+            for (const clause of clauses) {
+                if (isLocalImport(clause.name, composerProject.localPrefixes)) {
+                    continue;
+                }
+                const library = resolvePackage(
+                    clause.name,
+                    composerProject.packagePrefixes,
+                );
+                if (!library && isPhpBuiltin(clause.name)) {
+                    continue;
+                }
+                if (!clausesByLibrary.has(library)) {
+                    clausesByLibrary.set(library, []);
+                }
+                clausesByLibrary.get(library)!.push(clause);
+            }
+
+            for (const [library, libraryClauses] of clausesByLibrary) {
+                importStatements.push({
+                    file: relativePath,
+                    projectPath: projectPath,
+                    importedEntity: libraryClauses
+                        .map(({ name }) => name.split('\\').at(-1))
+                        .join(', '),
+                    modifiers: Array.from(
+                        new Set(
+                            libraryClauses.flatMap(({ kind, alias }) =>
+                                [
+                                    kind !== 'class' && kind,
+                                    alias && `alias ${alias}`,
+                                ].filter(Boolean),
+                            ),
+                        ),
+                    ) as string[],
+                    language: getLanguageByExtension(extension),
+                    library: library || 'No match found in composer.lock',
+                    fullImport: fullImport,
+                });
+            }
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+type UseClause = {
+    name: string; // fully qualified, without the leading backslash
+    kind: 'class' | 'function' | 'const';
+    alias?: string;
+};
+
+/**
+ * Finds the namespace imports of a PHP file. Only `use` declarations at the
+ * top level of the file (or of a braced `namespace X { }` block) are imports;
+ * `use` inside a class body imports a trait, and `function () use ($x)`
+ * captures variables.
+ */
+function parseUseDeclarations(
+    source: string,
+): { clauses: UseClause[]; fullImport: string }[] {
+    const code = stripCommentsAndStrings(extractPhpCode(source));
+    const declarations: { clauses: UseClause[]; fullImport: string }[] = [];
+
+    const tokenRegex =
+        /\bnamespace\s+[\w\\]*\s*\{|\buse\s+(?:function\s+|const\s+)?\\?[\w\\]+(?:\s*\{[^}]*\})?[^;{}]*;|[{}]/g;
+    let depth = 0;
+    let namespaceDepth = 0; // 1 inside a braced namespace block
+    let match;
+    while ((match = tokenRegex.exec(code))) {
+        const token = match[0];
+        if (token === '{') {
+            depth++;
+        } else if (token === '}') {
+            depth = Math.max(0, depth - 1);
+            if (depth === 0) namespaceDepth = 0;
+        } else if (token.startsWith('namespace')) {
+            depth++;
+            namespaceDepth = depth;
+        } else if (depth === namespaceDepth) {
+            const fullImport = token.replace(/\s+/g, ' ').trim();
+            declarations.push({
+                clauses: parseUseClauses(
+                    fullImport.replace(/^use\s+/, '').replace(/;$/, ''),
+                ),
+                fullImport,
+            });
+        }
+    }
+
+    return declarations;
+}
+
+function parseUseClauses(declaration: string): UseClause[] {
+    const kindMatch = declaration.match(/^(function|const)\s+/);
+    const kind = (kindMatch?.[1] ?? 'class') as UseClause['kind'];
+    const body = declaration.slice(kindMatch?.[0].length ?? 0);
+
+    // Grouped declaration: use A\{B, C as D, function e}
+    const groupMatch = body.match(/^\\?([\w\\]*?)\\?\s*\{([^}]*)\}/);
+    const [prefix, items] = groupMatch
+        ? [groupMatch[1] + '\\', groupMatch[2]]
+        : ['', body];
+
+    return items
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+        .map((item) => {
+            const itemMatch = item.match(
+                /^(?:(function|const)\s+)?\\?([\w\\]+)(?:\s+as\s+(\w+))?$/,
+            );
+            if (!itemMatch) return null;
+            return {
+                name: prefix + itemMatch[2],
+                kind: (itemMatch[1] as UseClause['kind']) ?? kind,
+                alias: itemMatch[3],
+            };
+        })
+        .filter((clause) => clause !== null);
+}
+
+// Blanks out inline HTML, keeping only what is inside <?php ... ?> tags
+function extractPhpCode(source: string): string {
+    return source.replace(
+        /(^|\?>)([\s\S]*?)(<\?(?:php|=)?|$)/g,
+        (_whole, close, html, open) =>
+            close + html.replace(/[^\n]/g, ' ') + open,
+    );
+}
+
+// Removes comments and replaces string literals with empty ones
+function stripCommentsAndStrings(source: string): string {
+    return source.replace(
+        /\/\/[^\n]*|#(?!\[)[^\n]*|\/\*[\s\S]*?\*\/|'(?:\\[\s\S]|[^'\\])*'|"(?:\\[\s\S]|[^"\\])*"/g,
+        (whole) =>
+            whole.startsWith("'") || whole.startsWith('"')
+                ? "''"
+                : whole.replace(/[^\n]/g, ''),
+    );
+}
+
+function resolvePackage(
+    name: string,
+    packagePrefixes: [string, string][],
+): string | null {
+    const match = packagePrefixes.find(([prefix]) =>
+        `${name}\\`.startsWith(prefix),
+    );
+    return match ? match[1] : null;
+}
+
+function isLocalImport(name: string, localPrefixes: string[]): boolean {
+    return localPrefixes.some((prefix) => `${name}\\`.startsWith(prefix));
+}
+
+// Classes of the global namespace (e.g. `use DateTime;`, `use Exception;`)
+// come from PHP itself or its extensions.
+export function isPhpBuiltin(name: string): boolean {
+    return !name.includes('\\');
+}
+
+type ComposerAutoload = {
+    'psr-4'?: Record<string, string | string[]>;
+    'psr-0'?: Record<string, string | string[]>;
+};
+
+type ComposerProject = {
+    localPrefixes: string[];
+    packagePrefixes: [string, string][]; // [namespace prefix, package@version], longest first
+};
+
+/**
+ * Builds a map of project path => composer project. The project's own
+ * `autoload`/`autoload-dev` namespaces count as local, while the autoload
+ * sections recorded for each installed package in `composer.lock` map
+ * namespaces to `vendor/package@version`.
+ */
+async function analyzeComposerProjects(
+    composerJsonPaths: string[],
+): Promise<Map<string, ComposerProject>> {
+    const projects = new Map<string, ComposerProject>();
+
+    for (const composerJsonPath of composerJsonPaths) {
+        const projectPath = path.dirname(composerJsonPath);
+        const project: ComposerProject = {
+            localPrefixes: [],
+            packagePrefixes: [],
+        };
+
+        try {
+            const composerJson: {
+                autoload?: ComposerAutoload;
+                'autoload-dev'?: ComposerAutoload;
+            } = JSON.parse(await fs.readFile(composerJsonPath, 'utf8'));
+            project.localPrefixes = [
+                ...getAutoloadPrefixes(composerJson.autoload),
+                ...getAutoloadPrefixes(composerJson['autoload-dev']),
+            ];
+        } catch (error) {
+            console.error(`Failed to parse ${composerJsonPath}:`, error);
+        }
+
+        const composerLockPath = path.join(projectPath, 'composer.lock');
+        try {
+            const composerLock: {
+                packages?: ComposerLockPackage[];
+                'packages-dev'?: ComposerLockPackage[];
+            } = JSON.parse(await fs.readFile(composerLockPath, 'utf8'));
+            for (const pkg of [
+                ...(composerLock.packages ?? []),
+                ...(composerLock['packages-dev'] ?? []),
+            ]) {
+                for (const prefix of getAutoloadPrefixes(pkg.autoload)) {
+                    project.packagePrefixes.push([
+                        prefix,
+                        `${pkg.name}@${pkg.version}`,
+                    ]);
+                }
+            }
+            project.packagePrefixes.sort(([a], [b]) => b.length - a.length);
+        } catch {
+            console.warn(`No composer.lock found for ${projectPath}`);
+        }
+
+        projects.set(projectPath, project);
+    }
+
+    return projects;
+}
+
+type ComposerLockPackage = {
+    name: string;
+    version: string;
+    autoload?: ComposerAutoload;
+};
+
+/**
+ * Returns the namespace prefixes of an autoload section, normalised to end
+ * with a backslash. PSR-0 prefixes may also use the old underscore style
+ * (`Twig_`), which is kept as is.
+ */
+function getAutoloadPrefixes(autoload?: ComposerAutoload): string[] {
+    return [
+        ...Object.keys(autoload?.['psr-4'] ?? {}),
+        ...Object.keys(autoload?.['psr-0'] ?? {}),
+    ]
+        .filter((prefix) => prefix.length > 0) // '' is the fallback directory
+        .map((prefix) =>
+            prefix.endsWith('\\') || prefix.endsWith('_')
+                ? prefix
+                : `${prefix}\\`,
+        );
+}
+
+const phpExcludedDirectories = ['vendor', 'var', '**/bootstrap/cache'];
+
+const phpExcludedFilePatterns: string[] = [];
+
+const phpTestExclusions: ExclusionRules = {
+    directories: [],
+    filePatterns: ['*Test.php'],
+};
@@ -1,5 +1,196 @@
-import { Plugin } from '../types';
+import path from 'path';
+import { LanguageExtractor, Plugin } from '../types';
+import { ImportFinderConfig } from '../config';
 import { javaScriptPlugin } from './javascript';
 import { javaPlugin } from './java';
+import { pythonPlugin } from './python';
+import { goPlugin } from './go';
+import { kotlinPlugin } from './kotlin';
+import { csharpPlugin } from './csharp';
+import { rustPlugin } from './rust';
+import { phpPlugin } from './php';
+import { rubyPlugin } from './ruby';
 
-export const builtinPlugins: Plugin[] = [javaScriptPlugin, javaPlugin];
+export const builtinPlugins: Plugin[] = [
+    javaScriptPlugin,
+    javaPlugin,
+    pythonPlugin,
+    goPlugin,
+    kotlinPlugin,
+    csharpPlugin,
+    rustPlugin,
+    phpPlugin,
+    rubyPlugin,
+];
+
+/**
+ * Loads external plugins from module paths (relative to `baseDir`) or package
+ * names, resolved from `baseDir` (then the working directory) like `require`
+ * does. A plugin module exports
+ * its `Plugin` as the default export, as `plugin`, or as the module itself:
+ *
+ *     export default {
+ *         name: 'my-dsl',
+ *         extensions: ['.dsl'],
+ *         async createExtractor(groupedFilesByExtensions) {
+ *             return { isIgnored, extractImports };
+ *         },
+ *     };
+ */
+export function loadExternalPlugins(
+    specifiers: string[],
+    baseDir: string,
+): Plugin[] {
+    return specifiers.map((specifier) => {
+        const modulePath =
+            specifier.startsWith('.') || path.isAbsolute(specifier)
+                ? path.resolve(baseDir, specifier)
+                : specifier;
+
+        let pluginModule;
+        try {
+            pluginModule = require(
+                require.resolve(modulePath, {
+                    paths: [baseDir, process.cwd()],
+                }),
+            );
+        } catch (error) {
+            throw new Error(
+                `Failed to load plugin ${specifier}: ${error instanceof Error ? error.message : error}`,
+            );
+        }
+
+        return validatePlugin(
+            pluginModule?.default ?? pluginModule?.plugin ?? pluginModule,
+            specifier,
+        );
+    });
+}
+
+function validatePlugin(candidate: unknown, specifier: string): Plugin {
+    const invalid = (problem: string) =>
+        new Error(`Invalid plugin ${specifier}: ${problem}`);
+
+    if (typeof candidate !== 'object' || candidate === null) {
+        throw invalid('it does not export a plugin object');
+    }
+    const plugin = candidate as Partial<Plugin>;
+    if (
+        !Array.isArray(plugin.extensions) ||
+        plugin.extensions.length === 0 ||
+        plugin.extensions.some(
+            (extension) =>
+                typeof extension !== 'string' || !extension.startsWith('.'),
+        )
+    ) {
+        throw invalid('"extensions" must be a non-empty list like [".dsl"]');
+    }
+    if (typeof plugin.createExtractor !== 'function') {
+        throw invalid('"createExtractor" must be a function');
+    }
+    if (plugin.name !== undefined && typeof plugin.name !== 'string') {
+        throw invalid('"name" must be a string');
+    }
+
+    return { ...(plugin as Plugin), name: plugin.name ?? specifier };
+}
+
+/**
+ * Checks what a plugin's `createExtractor` returned, as external plugins are
+ * not type-checked against `LanguageExtractor`.
+ */
+export function validateExtractor(
+    candidate: unknown,
+    plugin: Plugin,
+): LanguageExtractor {
+    const invalid = (problem: string) =>
+        new Error(`Invalid extractor of plugin ${plugin.name}: ${problem}`);
+
+    if (typeof candidate !== 'object' || candidate === null) {
+        throw invalid('createExtractor did not return an extractor object');
+    }
+    const extractor = candidate as Partial<LanguageExtractor>;
+    for (const method of ['isIgnored', 'extractImports'] as const) {
+        if (typeof extractor[method] !== 'function') {
+            throw invalid(`"${method}" must be a function`);
+        }
+    }
+    if (
+        extractor.extractUsages !== undefined &&
+        typeof extractor.extractUsages !== 'function'
+    ) {
+        throw invalid('"extractUsages" must be a function');
+    }
+
+    return extractor as LanguageExtractor;
+}
+
+/**
+ * Assigns each file extension to a single plugin. Plugins are listed from the
+ * lowest to the highest precedence, and the last one claiming an extension
+ * handles it: external plugins override the builtin ones, and plugins given
+ * on the command line those of the config file.
+ */
+export function assignExtensions(
+    plugins: Plugin[],
+    extensions: string[],
+): Map<Plugin, string[]> {
+    const pluginByExtension = new Map<string, Plugin>();
+    for (const plugin of plugins) {
+        for (const extension of plugin.extensions) {
+            const previous = pluginByExtension.get(extension);
+            if (
+                previous &&
+                previous !== plugin &&
+                extensions.includes(extension)
+            ) {
+                console.warn(
+                    `${extension} files are handled by the ${plugin.name} plugin instead of ${previous.name}`,
+                );
+            }
+            pluginByExtension.set(extension, plugin);
+        }
+    }
+
+    const assignedExtensions = new Map<Plugin, string[]>();
+    for (const plugin of plugins) {
+        const pluginExtensions = plugin.extensions.filter(
+            (extension) =>
+                pluginByExtension.get(extension) === plugin &&
+                extensions.includes(extension),
+        );
+        if (pluginExtensions.length > 0) {
+            assignedExtensions.set(plugin, pluginExtensions);
+        }
+    }
+    return assignedExtensions;
+}
+
+/**
+ * Keeps the plugins enabled in the config file: all of them unless
+ * `enabledPlugins` lists some, minus the `disabledPlugins`.
+ */
+export function selectPlugins(
+    plugins: Plugin[],
+    config: ImportFinderConfig,
+): Plugin[] {
+    const names = plugins.map(({ name }) => name);
+    for (const name of [
+        ...config.enabledPlugins,
+        ...config.disabledPlugins,
+        ...Object.keys(config.pluginSettings),
+    ]) {
+        if (!names.includes(name)) {
+            console.warn(
+                `Unknown plugin "${name}" in config, available plugins: ${names.join(', ')}`,
+            );
+        }
+    }
+
+    return plugins.filter(
+        ({ name }) =>
+            (config.enabledPlugins.length === 0 ||
+                config.enabledPlugins.includes(name)) &&
+            !config.disabledPlugins.includes(name),
+    );
+}
@@ -1,4 +1,6 @@
 import path from 'path';
+import micromatch from 'micromatch';
+import { ExclusionRules } from '../types';
 
 export function getRelativePathToRepo(
     repoPath: string,
@@ -10,22 +12,186 @@ export function getRelativePathToRepo(
     return filePath; // If the filePath doesn't start with repoPath, return as is
 }
 
+/**
+ * Whether a file (or a directory, when the path ends with a separator) is
+ * excluded by the given rules, which follow the .gitignore syntax relative
+ * to the repository root:
+ * - a rule without `/` matches a name at any depth (`*.test.ts`, `build`)
+ * - a rule with a `/` at the start or in the middle matches a path from the
+ *   root (`/dist`, `src/generated/**`), where `**` spans any number of
+ *   directories
+ * - excluded directories, and rules ending with `/`, only match directories
+ * - `!` re-includes what an earlier rule excluded; the last matching rule
+ *   wins, and nothing is re-included from an excluded directory
+ */
 export function isIgnored(
     file: string,
-    excludedDirectories: string[],
-    excludedFilePatterns: string[],
+    repoPath: string,
+    exclusions: ExclusionRules,
+    source: string = 'global',
 ): boolean {
-    const pathParts = file.split(path.sep);
-    const fileName = path.basename(file);
+    const rule = findIgnoreRule(file, repoPath, exclusions);
+    if (rule) {
+        logIgnoredFile(file, repoPath, rule, `${source} exclusions`);
+    }
+    return rule !== null;
+}
+
+// The rule excluding a file, or null
+export function findIgnoreRule(
+    file: string,
+    repoPath: string,
+    exclusions: ExclusionRules,
+): string | null {
+    const isDirectory = file.endsWith(path.sep);
+    const segments = path
+        .relative(repoPath, file)
+        .split(path.sep)
+        .filter((segment) => segment.length > 0);
+
+    // Parent directories first, as they hide everything they contain
+    for (let i = 1; i <= segments.length; i++) {
+        const match = matchIgnoreRules(
+            segments.slice(0, i).join('/'),
+            i < segments.length || isDirectory,
+            exclusions,
+        );
+        if (match && !match.negated) {
+            return match.rule;
+        }
+    }
+    return null;
+}
 
-    const isInExcludedDir = pathParts.some((dir) =>
-        excludedDirectories.includes(dir),
-    );
-    const isExcludedFile = excludedFilePatterns.some((pattern) =>
-        fileName.endsWith(pattern),
-    );
+/**
+ * The rule deciding whether a path (relative to the rules' base, with `/`
+ * separators) is excluded, without looking at its parent directories: the
+ * last matching one, which can be a `!` rule. Null when no rule matches.
+ */
+export function matchIgnoreRules(
+    relativePath: string,
+    isDirectory: boolean,
+    exclusions: ExclusionRules,
+): { rule: string; negated: boolean } | null {
+    const rules = compileIgnoreRules(exclusions);
+    const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+    for (let i = rules.length - 1; i >= 0; i--) {
+        const { directoryOnly, matchesPath, regex } = rules[i];
+        if (
+            (isDirectory || !directoryOnly) &&
+            regex.test(matchesPath ? relativePath : name)
+        ) {
+            return rules[i];
+        }
+    }
+    return null;
+}
 
-    return isInExcludedDir || isExcludedFile;
+type IgnoreRule = {
+    rule: string; // as written, with a `/` added to directories
+    negated: boolean;
+    directoryOnly: boolean;
+    matchesPath: boolean; // anchored to the root rather than a name at any depth
+    regex: RegExp;
+};
+
+const compiledIgnoreRules = new WeakMap<ExclusionRules, IgnoreRule[]>();
+
+function compileIgnoreRules(exclusions: ExclusionRules): IgnoreRule[] {
+    let rules = compiledIgnoreRules.get(exclusions);
+    if (!rules) {
+        rules = [
+            ...exclusions.directories.map((dir) =>
+                compileIgnoreRule(dir.endsWith('/') ? dir : `${dir}/`),
+            ),
+            ...exclusions.filePatterns.map((pattern) =>
+                compileIgnoreRule(pattern),
+            ),
+        ].filter((rule): rule is IgnoreRule => rule !== null);
+        compiledIgnoreRules.set(exclusions, rules);
+    }
+    return rules;
+}
+
+function compileIgnoreRule(rule: string): IgnoreRule | null {
+    let pattern = rule.trim();
+    if (pattern.length === 0 || pattern.startsWith('#')) {
+        return null;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+        pattern = pattern.slice(1);
+    }
+    if (pattern.startsWith('\\')) {
+        pattern = pattern.slice(1); // `\!important.txt`, `\#file`
+    }
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    const matchesPath = pattern.includes('/');
+
+    return {
+        rule: rule.trim(),
+        negated,
+        directoryOnly,
+        matchesPath,
+        regex: micromatch.makeRe(pattern.replace(/^\//, ''), { dot: true }),
+    };
+}
+
+let explainIgnoredFiles = false;
+
+// Diagnostic mode: logs the rule excluding each ignored file
+export function setExplainIgnoredFiles(enabled: boolean) {
+    explainIgnoredFiles = enabled;
+}
+
+export function logIgnoredFile(
+    file: string,
+    repoPath: string,
+    rule: string,
+    source: string,
+) {
+    if (explainIgnoredFiles) {
+        const relativePath = path.relative(repoPath, file) || '.';
+        console.log(`Ignored ${relativePath}: "${rule}" (${source})`);
+    }
+}
+
+/**
+ * Adjusts default exclusions with those of the config file: `include` drops
+ * default rules (e.g. to analyze `lib/`), `exclude` adds new ones. The rules
+ * matching test files are part of the defaults unless `includeTests` is set.
+ */
+export function applyExclusionSettings(
+    defaults: ExclusionRules,
+    settings: {
+        exclude: ExclusionRules;
+        include: ExclusionRules;
+        includeTests?: boolean;
+    },
+    tests: ExclusionRules = { directories: [], filePatterns: [] },
+): ExclusionRules {
+    if (!settings.includeTests) {
+        defaults = {
+            directories: [...defaults.directories, ...tests.directories],
+            filePatterns: [...defaults.filePatterns, ...tests.filePatterns],
+        };
+    }
+    return {
+        directories: [
+            ...defaults.directories.filter(
+                (dir) => !settings.include.directories.includes(dir),
+            ),
+            ...settings.exclude.directories,
+        ],
+        filePatterns: [
+            ...defaults.filePatterns.filter(
+                (pattern) => !settings.include.filePatterns.includes(pattern),
+            ),
+            ...settings.exclude.filePatterns,
+        ],
+    };
 }
 
 export function getLanguageByExtension(extension: string): string {
@@ -34,10 +200,23 @@ export function getLanguageByExtension(extension: string): string {
 
 const extensionToLanguage: Record<string, string> = {
     '.java': 'Java',
+    '.kt': 'Kotlin',
+    '.kts': 'Kotlin',
     '.js': 'JavaScript',
     '.ts': 'TypeScript',
     '.jsx': 'JavaScript (JSX)',
     '.tsx': 'TypeScript (TSX)',
+    '.vue': 'Vue',
+    '.svelte': 'Svelte',
+    '.astro': 'Astro',
+    '.mdx': 'MDX',
+    '.py': 'Python',
+    '.go': 'Go',
+    '.cs': 'C#',
+    '.rs': 'Rust',
+    '.php': 'PHP',
+    '.rb': 'Ruby',
+    '.rake': 'Ruby (Rake)',
 };
 
 export function findProjectPath(
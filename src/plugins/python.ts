@@ -0,0 +1,760 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const pythonPlugin: Plugin = {
+    name: 'python',
+    extensions: ['.py'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const dependencyFiles = [
+        ...(groupedFilesByExtensions.get('.txt') ?? []),
+        ...(groupedFilesByExtensions.get('.toml') ?? []),
+        ...(groupedFilesByExtensions.get('.lock') ?? []),
+    ].filter(isPythonDependencyFile);
+
+    const dependencyMap = await buildDependencyMap(dependencyFiles);
+    const localModules = findLocalModules(
+        groupedFilesByExtensions.get('.py') ?? [],
+        Array.from(dependencyMap.keys()),
+    );
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: pythonExcludedDirectories,
+            filePatterns: pythonExcludedFilePatterns,
+        },
+        settings,
+        pythonTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'python'),
+        async extractImports(filePath: string, repoPath: string) {
+            const projectPath = findProjectPath(
+                filePath,
+                Array.from(dependencyMap.keys()),
+            );
+
+            // Files outside every project are reported under the repo root,
+            // and keep the local modules found next to them
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath || repoPath,
+                new Set([
+                    ...(localModules.get(projectPath) ?? []),
+                    ...settings.localImportPrefixes,
+                ]),
+                dependencyMap.get(projectPath) ?? new Map(),
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    localModules: Set<string>,
+    dependencyMap: Map<string, string>,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const importStatements: ImportStatement[] = [];
+        for (const statement of splitLogicalStatements(fileContent)) {
+            const fromMatch = statement.match(fromImportRegex);
+            if (fromMatch) {
+                const moduleName = fromMatch[1];
+                if (
+                    moduleName.startsWith('.') || // Relative imports are always local
+                    isLocalModule(moduleName, localModules) ||
+                    isPythonStdlibModule(moduleName)
+                ) {
+                    continue;
+                }
+
+                const names = parseImportedNames(fromMatch[2]);
+                const isWildcard = names.some(({ name }) => name === '*');
+                const aliases = names.filter(({ alias }) => alias);
+
+                importStatements.push({
+                    file: relativePath,
+                    projectPath: projectPath,
+                    importedEntity: names.map(({ name }) => name).join(', '),
+                    modifiers: [
+                        ...aliases.map(({ alias }) => `alias ${alias}`),
+                        isWildcard && 'wildcard',
+                    ].filter(Boolean) as string[],
+                    language: getLanguageByExtension(extension),
+                    library: resolveLibrary(
+                        // `from google.cloud import storage` may name a module
+                        isWildcard
+                            ? moduleName
+                            : `${moduleName}.${names[0].name}`,
+                        dependencyMap,
+                    ),
+                    fullImport: statement,
+                });
+                continue;
+            }
+
+            const importMatch = statement.match(importRegex);
+            if (importMatch) {
+                // `import a, b.c as d` imports several unrelated modules at once
+                for (const { name, alias } of parseImportedNames(
+                    importMatch[1],
+                )) {
+                    if (
+                        isLocalModule(name, localModules) ||
+                        isPythonStdlibModule(name)
+                    ) {
+                        continue;
+                    }
+
+                    importStatements.push({
+                        file: relativePath,
+                        projectPath: projectPath,
+                        importedEntity: name,
+                        modifiers: alias ? [`alias ${alias}`] : [],
+                        language: getLanguageByExtension(extension),
+                        library: resolveLibrary(name, dependencyMap),
+                        fullImport: statement,
+                    });
+                }
+            }
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+const importRegex = /^import\s+(.+)$/;
+const fromImportRegex = /^from\s+(\.*[\w.]*)\s+import\s+(.+)$/;
+
+function parseImportedNames(names: string): { name: string; alias?: string }[] {
+    return names
+        .replace(/[()]/g, '')
+        .split(',')
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+        .map((part) => {
+            const [name, alias] = part.split(/\s+as\s+/);
+            return { name: name.trim(), alias: alias?.trim() };
+        });
+}
+
+/**
+ * Splits Python source into logical statements, with comments and string
+ * literals removed, parenthesised continuations and backslash continuations
+ * joined, and whitespace collapsed. Only the statements that can be imports
+ * are returned, so docstrings mentioning `import` never produce matches.
+ */
+function splitLogicalStatements(source: string): string[] {
+    const code = stripCommentsAndStrings(source);
+    const statements: string[] = [];
+
+    let current = '';
+    let depth = 0;
+    for (const line of code.split('\n')) {
+        let text = line;
+        const continues = /\\\s*$/.test(text);
+        if (continues) {
+            text = text.replace(/\\\s*$/, '');
+        }
+
+        current += ' ' + text;
+        for (const char of text) {
+            if (char === '(' || char === '[' || char === '{') depth++;
+            if (char === ')' || char === ']' || char === '}') {
+                depth = Math.max(0, depth - 1);
+            }
+        }
+
+        if (continues || depth > 0) {
+            continue;
+        }
+
+        for (const statement of current.split(';')) {
+            const collapsed = statement.replace(/\s+/g, ' ').trim();
+            if (/^(import|from)\s/.test(collapsed)) {
+                statements.push(collapsed);
+            }
+        }
+        current = '';
+    }
+
+    return statements;
+}
+
+function stripCommentsAndStrings(source: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (char === '#') {
+            while (i < source.length && source[i] !== '\n') i++;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const quote = source.startsWith(char.repeat(3), i)
+                ? char.repeat(3)
+                : char;
+            i += quote.length;
+            // Replace the literal with a placeholder, keeping its line breaks
+            result += '""';
+            while (i < source.length && !source.startsWith(quote, i)) {
+                if (source[i] === '\n') {
+                    if (quote.length === 1) break; // Unterminated string
+                    result += '\n';
+                } else if (source[i] === '\\') {
+                    i++;
+                }
+                i++;
+            }
+            if (source.startsWith(quote, i)) {
+                i += quote.length;
+            }
+            continue;
+        }
+
+        result += char;
+        i++;
+    }
+
+    return result;
+}
+
+/**
+ * Resolves a dotted module name to `distribution@version` by trying the
+ * longest dotted prefix first, so `google.cloud.storage` matches
+ * `google-cloud-storage` before a plain `google` distribution would.
+ */
+function resolveLibrary(
+    moduleName: string,
+    dependencyMap: Map<string, string>,
+): string {
+    const parts = moduleName.split('.');
+    for (let i = parts.length; i > 0; i--) {
+        const candidate = parts.slice(0, i).join('.');
+        const library = dependencyMap.get(candidate);
+        if (library) {
+            return library;
+        }
+    }
+
+    return 'No match found in dependency files';
+}
+
+// Local modules are top-level packages, or dotted prefixes from the config file
+function isLocalModule(moduleName: string, localModules: Set<string>) {
+    const parts = moduleName.split('.');
+    return parts.some((_, i) =>
+        localModules.has(parts.slice(0, i + 1).join('.')),
+    );
+}
+
+/**
+ * Collects the top-level module names that are defined inside each project,
+ * e.g. `app` for `app/__init__.py` or `utils` for `src/utils.py`.
+ */
+function findLocalModules(
+    pythonFiles: string[],
+    projectPaths: string[],
+): Map<string, Set<string>> {
+    const localModules = new Map<string, Set<string>>();
+
+    for (const file of pythonFiles) {
+        const projectPath = findProjectPath(file, projectPaths);
+        const relative = path
+            .relative(projectPath || path.dirname(file), file)
+            .split(path.sep);
+        if (relative[0] === 'src' && relative.length > 1) {
+            relative.shift(); // src-layout projects
+        }
+
+        const moduleName = relative[0].replace(/\.py$/, '');
+        if (!localModules.has(projectPath)) {
+            localModules.set(projectPath, new Set());
+        }
+        localModules.get(projectPath)!.add(moduleName);
+    }
+
+    return localModules;
+}
+
+function isPythonDependencyFile(file: string): boolean {
+    const fileName = path.basename(file);
+    return (
+        /^requirements.*\.txt$/.test(fileName) ||
+        fileName === 'pyproject.toml' ||
+        fileName === 'poetry.lock' ||
+        fileName === 'Pipfile.lock'
+    );
+}
+
+type DependencyMap = Map<string, Map<string, string>>;
+
+/**
+ * Builds a map of project path => { module: distribution@version } from the
+ * Python dependency files found in each project directory. Versions pinned in
+ * `poetry.lock` or `Pipfile.lock` take precedence over the declared ones.
+ */
+async function buildDependencyMap(
+    dependencyFiles: string[],
+): Promise<DependencyMap> {
+    const filesByProject = new Map<string, string[]>();
+    for (const file of dependencyFiles) {
+        const dir = path.dirname(file);
+        if (!filesByProject.has(dir)) {
+            filesByProject.set(dir, []);
+        }
+        filesByProject.get(dir)!.push(file);
+    }
+
+    const depMap: DependencyMap = new Map();
+    for (const [projectPath, files] of filesByProject.entries()) {
+        const declared = new Map<string, string>(); // distribution ➝ version
+        const locked = new Map<string, string>();
+
+        for (const file of files) {
+            try {
+                const content = await fs.readFile(file, 'utf8');
+                const fileName = path.basename(file);
+                if (fileName === 'poetry.lock') {
+                    parsePoetryLock(content, locked);
+                } else if (fileName === 'Pipfile.lock') {
+                    parsePipfileLock(content, locked);
+                } else if (fileName === 'pyproject.toml') {
+                    parsePyprojectToml(content, declared);
+                } else {
+                    parseRequirementsTxt(content, declared);
+                }
+            } catch (error) {
+                console.error(`Failed to parse ${file}:`, error);
+            }
+        }
+
+        const depEntries = new Map<string, string>();
+        for (const [distribution, version] of [...declared, ...locked]) {
+            const library = version
+                ? `${distribution}@${version}`
+                : distribution;
+            for (const moduleName of getModuleNames(distribution)) {
+                depEntries.set(moduleName, library);
+            }
+        }
+        depMap.set(projectPath, depEntries);
+    }
+
+    return depMap;
+}
+
+// PEP 508 requirement: name[extras] (specifier) ; markers
+const requirementRegex =
+    /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*\(?\s*([^;]*?)\s*\)?\s*(?:;.*)?$/;
+
+function parseRequirement(requirement: string): [string, string] | null {
+    const match = requirement.trim().match(requirementRegex);
+    if (!match) {
+        return null;
+    }
+    return [match[1], normalizeVersionSpecifier(match[2])];
+}
+
+function normalizeVersionSpecifier(specifier: string): string {
+    const pinned = specifier.match(/^===?\s*([^\s,]+)$/);
+    return pinned ? pinned[1] : specifier.replace(/\s+/g, '');
+}
+
+function parseRequirementsTxt(content: string, out: Map<string, string>) {
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '').trim();
+        if (!line || line.startsWith('#') || line.startsWith('-')) {
+            continue; // Comments and pip options like -r, -e, --index-url
+        }
+        const requirement = parseRequirement(line);
+        if (requirement) {
+            out.set(requirement[0], requirement[1]);
+        }
+    }
+}
+
+interface PyprojectToml {
+    project?: {
+        dependencies?: string[];
+        'optional-dependencies'?: Record<string, string[]>;
+    };
+    'dependency-groups'?: Record<string, unknown[]>;
+    tool?: {
+        poetry?: {
+            dependencies?: Record<string, unknown>;
+            'dev-dependencies'?: Record<string, unknown>;
+            group?: Record<string, { dependencies?: Record<string, unknown> }>;
+        };
+    };
+}
+
+function parsePyprojectToml(content: string, out: Map<string, string>) {
+    const pyproject = parseToml(content) as PyprojectToml;
+
+    const pep508Requirements = [
+        ...(pyproject.project?.dependencies ?? []),
+        ...Object.values(pyproject.project?.['optional-dependencies'] ?? {}),
+        ...Object.values(pyproject['dependency-groups'] ?? {}),
+    ].flat();
+    for (const requirement of pep508Requirements) {
+        if (typeof requirement !== 'string') continue; // include-group tables
+        const parsed = parseRequirement(requirement);
+        if (parsed) {
+            out.set(parsed[0], parsed[1]);
+        }
+    }
+
+    const poetry = pyproject.tool?.poetry;
+    const poetryTables = [
+        poetry?.dependencies,
+        poetry?.['dev-dependencies'],
+        ...Object.values(poetry?.group ?? {}).map(
+            (group) => group.dependencies,
+        ),
+    ];
+    for (const table of poetryTables) {
+        for (const [name, spec] of Object.entries(table ?? {})) {
+            if (name === 'python') continue;
+            const version =
+                typeof spec === 'string'
+                    ? spec
+                    : ((spec as { version?: string }).version ?? '');
+            out.set(name, normalizeVersionSpecifier(version));
+        }
+    }
+}
+
+function parsePoetryLock(content: string, out: Map<string, string>) {
+    const lock = parseToml(content) as {
+        package?: { name: string; version: string }[];
+    };
+    for (const pkg of lock.package ?? []) {
+        out.set(pkg.name, pkg.version);
+    }
+}
+
+function parsePipfileLock(content: string, out: Map<string, string>) {
+    const lock: Record<
+        string,
+        Record<string, { version?: string }>
+    > = JSON.parse(content);
+    for (const section of ['default', 'develop']) {
+        for (const [name, details] of Object.entries(lock[section] ?? {})) {
+            out.set(name, normalizeVersionSpecifier(details.version ?? ''));
+        }
+    }
+}
+
+/**
+ * Returns the module names a distribution can be imported under. Most
+ * distributions follow the normalised-name convention (`Flask-Login` ➝
+ * `flask_login`), the rest are listed in `knownDistributionModules`.
+ */
+function getModuleNames(distribution: string): string[] {
+    const normalized = distribution.toLowerCase().replace(/[-_.]+/g, '-');
+    const moduleNames = [
+        normalized.replace(/-/g, '_'),
+        normalized.replace(/-/g, '.'), // Namespace packages like google-cloud-storage
+        ...(knownDistributionModules[normalized] ?? []),
+    ];
+    return Array.from(new Set(moduleNames));
+}
+
+const knownDistributionModules: Record<string, string[]> = {
+    attrs: ['attr', 'attrs'],
+    beautifulsoup4: ['bs4'],
+    'django-rest-framework': ['rest_framework'],
+    djangorestframework: ['rest_framework'],
+    'google-api-python-client': ['googleapiclient'],
+    grpcio: ['grpc'],
+    'msgpack-python': ['msgpack'],
+    'opencv-python': ['cv2'],
+    'opencv-python-headless': ['cv2'],
+    pillow: ['PIL'],
+    protobuf: ['google.protobuf'],
+    'psycopg2-binary': ['psycopg2'],
+    pycryptodome: ['Crypto'],
+    pyjwt: ['jwt'],
+    pymupdf: ['fitz'],
+    pyopenssl: ['OpenSSL'],
+    'python-dateutil': ['dateutil'],
+    'python-dotenv': ['dotenv'],
+    'python-jose': ['jose'],
+    'python-magic': ['magic'],
+    'python-multipart': ['multipart'],
+    pytz: ['pytz'],
+    pyyaml: ['yaml'],
+    'scikit-image': ['skimage'],
+    'scikit-learn': ['sklearn'],
+    setuptools: ['setuptools', 'pkg_resources'],
+};
+
+export function isPythonStdlibModule(moduleName: string): boolean {
+    return pythonStdlibModules.has(moduleName.split('.')[0]);
+}
+
+const pythonStdlibModules = new Set([
+    '__future__',
+    '_thread',
+    'abc',
+    'aifc',
+    'argparse',
+    'array',
+    'ast',
+    'asynchat',
+    'asyncio',
+    'asyncore',
+    'atexit',
+    'audioop',
+    'base64',
+    'bdb',
+    'binascii',
+    'bisect',
+    'builtins',
+    'bz2',
+    'cProfile',
+    'calendar',
+    'cgi',
+    'cgitb',
+    'chunk',
+    'cmath',
+    'cmd',
+    'code',
+    'codecs',
+    'codeop',
+    'collections',
+    'colorsys',
+    'compileall',
+    'concurrent',
+    'configparser',
+    'contextlib',
+    'contextvars',
+    'copy',
+    'copyreg',
+    'crypt',
+    'csv',
+    'ctypes',
+    'curses',
+    'dataclasses',
+    'datetime',
+    'dbm',
+    'decimal',
+    'difflib',
+    'dis',
+    'distutils',
+    'doctest',
+    'email',
+    'encodings',
+    'ensurepip',
+    'enum',
+    'errno',
+    'faulthandler',
+    'fcntl',
+    'filecmp',
+    'fileinput',
+    'fnmatch',
+    'fractions',
+    'ftplib',
+    'functools',
+    'gc',
+    'getopt',
+    'getpass',
+    'gettext',
+    'glob',
+    'graphlib',
+    'grp',
+    'gzip',
+    'hashlib',
+    'heapq',
+    'hmac',
+    'html',
+    'http',
+    'imaplib',
+    'imghdr',
+    'imp',
+    'importlib',
+    'inspect',
+    'io',
+    'ipaddress',
+    'itertools',
+    'json',
+    'keyword',
+    'lib2to3',
+    'linecache',
+    'locale',
+    'logging',
+    'lzma',
+    'mailbox',
+    'mailcap',
+    'marshal',
+    'math',
+    'mimetypes',
+    'mmap',
+    'modulefinder',
+    'msilib',
+    'msvcrt',
+    'multiprocessing',
+    'netrc',
+    'nis',
+    'nntplib',
+    'ntpath',
+    'numbers',
+    'operator',
+    'optparse',
+    'os',
+    'ossaudiodev',
+    'pathlib',
+    'pdb',
+    'pickle',
+    'pickletools',
+    'pipes',
+    'pkgutil',
+    'platform',
+    'plistlib',
+    'poplib',
+    'posix',
+    'posixpath',
+    'pprint',
+    'profile',
+    'pstats',
+    'pty',
+    'pwd',
+    'py_compile',
+    'pyclbr',
+    'pydoc',
+    'queue',
+    'quopri',
+    'random',
+    're',
+    'readline',
+    'reprlib',
+    'resource',
+    'rlcompleter',
+    'runpy',
+    'sched',
+    'secrets',
+    'select',
+    'selectors',
+    'shelve',
+    'shlex',
+    'shutil',
+    'signal',
+    'site',
+    'smtpd',
+    'smtplib',
+    'sndhdr',
+    'socket',
+    'socketserver',
+    'spwd',
+    'sqlite3',
+    'ssl',
+    'stat',
+    'statistics',
+    'string',
+    'stringprep',
+    'struct',
+    'subprocess',
+    'sunau',
+    'symtable',
+    'sys',
+    'sysconfig',
+    'syslog',
+    'tabnanny',
+    'tarfile',
+    'telnetlib',
+    'tempfile',
+    'termios',
+    'textwrap',
+    'threading',
+    'time',
+    'timeit',
+    'tkinter',
+    'token',
+    'tokenize',
+    'tomllib',
+    'trace',
+    'traceback',
+    'tracemalloc',
+    'tty',
+    'turtle',
+    'types',
+    'typing',
+    'unicodedata',
+    'unittest',
+    'urllib',
+    'uu',
+    'uuid',
+    'venv',
+    'warnings',
+    'wave',
+    'weakref',
+    'webbrowser',
+    'winreg',
+    'winsound',
+    'wsgiref',
+    'xdrlib',
+    'xml',
+    'xmlrpc',
+    'zipapp',
+    'zipfile',
+    'zipimport',
+    'zlib',
+    'zoneinfo',
+]);
+
+const pythonExcludedDirectories = [
+    '.venv',
+    '.tox',
+    '.nox',
+    '.eggs',
+    '.mypy_cache',
+    '.pytest_cache',
+    '.ruff_cache',
+    'site-packages',
+];
+
+const pythonExcludedFilePatterns = ['setup.py'];
+
+const pythonTestExclusions: ExclusionRules = {
+    directories: [],
+    filePatterns: ['conftest.py', '*_test.py', 'test_*.py'],
+};
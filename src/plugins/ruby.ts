@@ -0,0 +1,342 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const rubyPlugin: Plugin = {
+    name: 'ruby',
+    extensions: ['.rb', '.rake'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const gemfilePaths = (groupedFilesByExtensions.get('') ?? []).filter(
+        (file) => path.basename(file) === 'Gemfile',
+    );
+    const bundles = await analyzeBundles(gemfilePaths);
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: rubyExcludedDirectories,
+            filePatterns: rubyExcludedFilePatterns,
+        },
+        settings,
+        rubyTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'ruby'),
+        async extractImports(filePath: string, repoPath: string) {
+            // Files outside every bundle are resolved from the repo root,
+            // where no gem is known
+            const projectPath =
+                findProjectPath(filePath, Array.from(bundles.keys())) ||
+                repoPath;
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                projectPath,
+                settings.localImportPrefixes,
+                bundles.get(projectPath) ?? {
+                    gems: new Map(),
+                    localGems: new Set(),
+                },
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    projectPath: string,
+    localImportPrefixes: string[],
+    bundle: Bundle,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const fileContent = await fs.readFile(filePath, 'utf8');
+
+        const importStatements: ImportStatement[] = [];
+        // - require 'json' / require("net/http")
+        // - autoload :Faraday, 'faraday'
+        // require_relative is always local, so it is never matched here.
+        const requireRegex =
+            /^[^#\n]*?\b(require|autoload)\b\s*\(?\s*(?::(\w+)\s*,\s*)?(['"])([^'"\n]+)\3\)?/gm;
+        let match;
+        while ((match = requireRegex.exec(fileContent))) {
+            const isAutoload = match[1] === 'autoload';
+            const feature = match[4];
+
+            if (
+                await isLocalFeature(
+                    feature,
+                    projectPath,
+                    localImportPrefixes,
+                    bundle,
+                )
+            ) {
+                continue;
+            }
+
+            const library = resolveGem(feature, bundle.gems);
+            if (!library && isRubyStdlibFeature(feature)) {
+                continue;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: projectPath,
+                importedEntity: isAutoload ? match[2] : feature,
+                modifiers: isAutoload ? ['autoload'] : [],
+                language: getLanguageByExtension(extension),
+                library: library ?? 'No match found in Gemfile.lock',
+                fullImport: match[0].slice(match[0].indexOf(match[1])).trim(),
+            });
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+/**
+ * Resolves a required feature to the gem that provides it. Most gems follow
+ * the naming convention (`rack/test` ➝ `rack-test` or `rack`), the rest are
+ * listed in `knownFeatureGems` (`active_support` ➝ `activesupport`).
+ */
+function resolveGem(feature: string, gems: Map<string, string>): string | null {
+    const parts = feature.split('/');
+    const candidates: string[] = [];
+    for (let i = parts.length; i > 0; i--) {
+        const prefix = parts.slice(0, i);
+        candidates.push(prefix.join('-'), prefix.join('/'));
+    }
+    candidates.push(...(knownFeatureGems[parts[0]] ?? []));
+    candidates.push(parts[0].replace(/_/g, ''), parts[0].replace(/_/g, '-'));
+
+    for (const candidate of candidates) {
+        const version = gems.get(candidate);
+        if (version) {
+            return `${candidate}@${version}`;
+        }
+    }
+    return null;
+}
+
+const knownFeatureGems: Record<string, string[]> = {
+    action_cable: ['actioncable'],
+    action_controller: ['actionpack'],
+    action_dispatch: ['actionpack'],
+    action_mailbox: ['actionmailbox'],
+    action_mailer: ['actionmailer'],
+    action_text: ['actiontext'],
+    action_view: ['actionview'],
+    active_job: ['activejob'],
+    active_model: ['activemodel'],
+    active_record: ['activerecord'],
+    active_storage: ['activestorage'],
+    active_support: ['activesupport'],
+    mime: ['mime-types'],
+    rails: ['railties', 'rails'],
+};
+
+/**
+ * Features of the project itself: files under its `lib/` directory, gems
+ * that Bundler loads from a local path (the `PATH` section of Gemfile.lock,
+ * e.g. the gem being developed), or prefixes declared in the config file.
+ */
+async function isLocalFeature(
+    feature: string,
+    projectPath: string,
+    localImportPrefixes: string[],
+    bundle: Bundle,
+): Promise<boolean> {
+    if (
+        feature.startsWith('.') ||
+        path.isAbsolute(feature) ||
+        localImportPrefixes.some(
+            (prefix) => feature === prefix || feature.startsWith(`${prefix}/`),
+        )
+    ) {
+        return true;
+    }
+    if (bundle.localGems.has(feature.split('/')[0].replace(/_/g, '-'))) {
+        return true;
+    }
+
+    const featureFile = feature.endsWith('.rb') ? feature : `${feature}.rb`;
+    try {
+        await fs.access(path.join(projectPath, 'lib', featureFile));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+type Bundle = {
+    gems: Map<string, string>; // gem ➝ locked version
+    localGems: Set<string>;
+};
+
+/**
+ * Builds a map of Gemfile directory => locked gems from the `Gemfile.lock`
+ * next to each Gemfile.
+ */
+async function analyzeBundles(
+    gemfilePaths: string[],
+): Promise<Map<string, Bundle>> {
+    const bundles = new Map<string, Bundle>();
+
+    for (const gemfilePath of gemfilePaths) {
+        const projectPath = path.dirname(gemfilePath);
+        const lockPath = path.join(projectPath, 'Gemfile.lock');
+        try {
+            bundles.set(
+                projectPath,
+                parseGemfileLock(await fs.readFile(lockPath, 'utf8')),
+            );
+        } catch {
+            console.warn(`No Gemfile.lock found for ${projectPath}`);
+            bundles.set(projectPath, { gems: new Map(), localGems: new Set() });
+        }
+    }
+
+    return bundles;
+}
+
+function parseGemfileLock(content: string): Bundle {
+    const bundle: Bundle = { gems: new Map(), localGems: new Set() };
+
+    let section = '';
+    for (const line of content.split('\n')) {
+        if (/^[A-Z]/.test(line)) {
+            section = line.trim(); // GEM, GIT, PATH, PLATFORMS, DEPENDENCIES...
+            continue;
+        }
+
+        // Specs are indented by four spaces, their dependencies by six
+        const spec = line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+        if (!spec || !['GEM', 'GIT', 'PATH'].includes(section)) {
+            continue;
+        }
+
+        const [, name, rawVersion] = spec;
+        // Platform-specific gems are locked as e.g. 1.15.4-x86_64-linux
+        bundle.gems.set(name, rawVersion.replace(/-.*$/, ''));
+        if (section === 'PATH') {
+            bundle.localGems.add(name);
+        }
+    }
+
+    return bundle;
+}
+
+export function isRubyStdlibFeature(feature: string): boolean {
+    return rubyStdlibFeatures.has(feature.split('/')[0].replace(/\.rb$/, ''));
+}
+
+const rubyStdlibFeatures = new Set([
+    'abbrev',
+    'base64',
+    'benchmark',
+    'bigdecimal',
+    'cgi',
+    'coverage',
+    'csv',
+    'date',
+    'delegate',
+    'digest',
+    'drb',
+    'English',
+    'erb',
+    'etc',
+    'expect',
+    'fcntl',
+    'fiber',
+    'fiddle',
+    'fileutils',
+    'find',
+    'forwardable',
+    'getoptlong',
+    'io',
+    'ipaddr',
+    'irb',
+    'json',
+    'logger',
+    'matrix',
+    'monitor',
+    'mutex_m',
+    'net',
+    'nkf',
+    'objspace',
+    'observer',
+    'open-uri',
+    'open3',
+    'openssl',
+    'optparse',
+    'ostruct',
+    'pathname',
+    'pp',
+    'prettyprint',
+    'prime',
+    'pstore',
+    'psych',
+    'racc',
+    'rbconfig',
+    'rdoc',
+    'readline',
+    'reline',
+    'resolv',
+    'ripper',
+    'securerandom',
+    'set',
+    'shellwords',
+    'singleton',
+    'socket',
+    'stringio',
+    'strscan',
+    'syslog',
+    'tempfile',
+    'time',
+    'timeout',
+    'tmpdir',
+    'tsort',
+    'un',
+    'uri',
+    'weakref',
+    'yaml',
+    'zlib',
+]);
+
+const rubyExcludedDirectories = ['vendor', '.bundle'];
+
+const rubyExcludedFilePatterns: string[] = [];
+
+const rubyTestExclusions: ExclusionRules = {
+    directories: ['spec', 'test'],
+    filePatterns: ['*_spec.rb', '*_test.rb'],
+};
@@ -0,0 +1,466 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import {
+    ExclusionRules,
+    ImportStatement,
+    LanguageExtractor,
+    Plugin,
+    PluginSettings,
+} from '../types';
+import {
+    applyExclusionSettings,
+    findProjectPath,
+    getLanguageByExtension,
+    getRelativePathToRepo,
+    isIgnored,
+} from './plugin.util';
+
+export const rustPlugin: Plugin = {
+    name: 'rust',
+    extensions: ['.rs'],
+    createExtractor,
+};
+
+async function createExtractor(
+    groupedFilesByExtensions: Map<string, string[]>,
+    settings: PluginSettings,
+): Promise<LanguageExtractor> {
+    const cargoTomlPaths = (groupedFilesByExtensions.get('.toml') ?? []).filter(
+        (file) => path.basename(file) === 'Cargo.toml',
+    );
+    const crates = await analyzeCargoCrates(cargoTomlPaths);
+    const localCrateNames = new Set([
+        ...Array.from(crates.values()).map((crate) => crate.name),
+        ...settings.localImportPrefixes,
+    ]);
+
+    const exclusions = applyExclusionSettings(
+        {
+            directories: rustExcludedDirectories,
+            filePatterns: rustExcludedFilePatterns,
+        },
+        settings,
+        rustTestExclusions,
+    );
+
+    return {
+        isIgnored: (file: string, repoPath: string) =>
+            isIgnored(file, repoPath, exclusions, 'rust'),
+        async extractImports(filePath: string, repoPath: string) {
+            const crateDir = findProjectPath(
+                filePath,
+                Array.from(crates.keys()),
+            );
+
+            return await extractImports(
+                filePath,
+                repoPath,
+                localCrateNames,
+                // Files outside every crate are reported under the repo root
+                crates.get(crateDir) ?? {
+                    name: '',
+                    workspaceRoot: repoPath,
+                    dependencies: new Map(),
+                },
+            );
+        },
+    };
+}
+
+async function extractImports(
+    filePath: string,
+    repoPath: string,
+    localCrateNames: Set<string>,
+    crate: CargoCrate,
+): Promise<ImportStatement[]> {
+    try {
+        const relativePath = getRelativePathToRepo(repoPath, filePath);
+        const extension = filePath.slice(filePath.lastIndexOf('.'));
+        const code = stripCommentsAndStrings(
+            await fs.readFile(filePath, 'utf8'),
+        );
+
+        const importStatements: ImportStatement[] = [];
+        const addImport = (
+            crateName: string,
+            leaves: UseLeaf[],
+            fullImport: string,
+        ) => {
+            if (
+                localCratePrefixes.has(crateName) ||
+                localCrateNames.has(crateName) ||
+                rustBuiltinCrates.has(crateName)
+            ) {
+                return;
+            }
+
+            importStatements.push({
+                file: relativePath,
+                projectPath: crate.workspaceRoot,
+                importedEntity: leaves.map((leaf) => leaf.name).join(', '),
+                modifiers: [
+                    ...leaves
+                        .filter((leaf) => leaf.alias)
+                        .map((leaf) => `alias ${leaf.alias}`),
+                    leaves.some((leaf) => leaf.name === '*') && 'wildcard',
+                ].filter(Boolean) as string[],
+                language: getLanguageByExtension(extension),
+                library:
+                    crate.dependencies.get(crateName) ??
+                    'No match found in Cargo.lock',
+                fullImport: fullImport,
+            });
+        };
+
+        const useRegex =
+            /(?:^|[;{}\]\s])(?:pub(?:\s*\([^)]*\))?\s+)?use\s+([^;]+);/g;
+        let match;
+        while ((match = useRegex.exec(code))) {
+            const fullImport = match[0]
+                .replace(/^[;{}\]\s]/, '')
+                .replace(/\s+/g, ' ')
+                .trim();
+
+            // A single `use` may span several crates: `use {a::b, c::d};`
+            const leavesByCrate = new Map<string, UseLeaf[]>();
+            for (const leaf of expandUseTree(match[1])) {
+                const [crateName, ...rest] = leaf.path;
+                if (!leavesByCrate.has(crateName)) {
+                    leavesByCrate.set(crateName, []);
+                }
+                leavesByCrate.get(crateName)!.push({
+                    ...leaf,
+                    // `use regex;` imports the crate itself
+                    name: rest.length > 0 ? leaf.name : crateName,
+                });
+            }
+
+            for (const [crateName, leaves] of leavesByCrate.entries()) {
+                addImport(crateName, leaves, fullImport);
+            }
+        }
+
+        const externCrateRegex =
+            /\bextern\s+crate\s+(\w+)(?:\s+as\s+(\w+))?\s*;/g;
+        while ((match = externCrateRegex.exec(code))) {
+            addImport(
+                match[1],
+                [{ path: [match[1]], name: match[1], alias: match[2] }],
+                match[0].replace(/\s+/g, ' '),
+            );
+        }
+
+        return importStatements;
+    } catch (error) {
+        console.error(`Failed to process file: ${filePath}`);
+        if (error instanceof Error) {
+            console.error(`Error: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+type UseLeaf = {
+    path: string[];
+    name: string;
+    alias?: string;
+};
+
+/**
+ * Flattens a use tree such as `a::{b, c::{d as e, *}, self}` into its leaves:
+ * `a::b`, `a::c::d as e`, `a::c::*` and `a`.
+ */
+function expandUseTree(tree: string, prefix: string[] = []): UseLeaf[] {
+    const source = tree
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^::\s*/, '');
+    const groupStart = source.indexOf('{');
+
+    if (groupStart === -1) {
+        const [rawPath, alias] = source.split(/\s+as\s+/);
+        const segments = rawPath
+            .split('::')
+            .map((segment) => segment.trim())
+            .filter(Boolean);
+        const fullPath = [...prefix, ...segments];
+        if (segments.at(-1) === 'self') {
+            fullPath.pop(); // `a::{self}` imports `a`
+        }
+        if (fullPath.length === 0) {
+            return [];
+        }
+        return [
+            {
+                path: fullPath,
+                name: fullPath.at(-1)!,
+                alias: alias?.trim(),
+            },
+        ];
+    }
+
+    const groupPrefix = source
+        .slice(0, groupStart)
+        .split('::')
+        .map((segment) => segment.trim())
+        .filter(Boolean);
+    const groupEnd = source.lastIndexOf('}');
+    const body = source.slice(groupStart + 1, groupEnd);
+
+    return splitTopLevel(body).flatMap((subtree) =>
+        expandUseTree(subtree, [...prefix, ...groupPrefix]),
+    );
+}
+
+function splitTopLevel(body: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of body) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.filter((part) => part.trim().length > 0);
+}
+
+// Removes comments and replaces string literals with empty ones, keeping
+// line breaks intact. Char literals are matched first so `'"'` starts no
+// string; they hold a single character, so lifetimes like `'a` don't match.
+function stripCommentsAndStrings(source: string): string {
+    return source.replace(
+        /\/\/[^\n]*|\/\*[\s\S]*?\*\/|b?'(?:\\.|[^'\\\n])'|b?r(#*)"[\s\S]*?"\1|b?"(?:\\[\s\S]|[^"\\])*"/g,
+        (whole) => {
+            if (whole.startsWith('/')) return whole.replace(/[^\n]/g, '');
+            return /^b?'/.test(whole) ? "' '" : '""';
+        },
+    );
+}
+
+// Paths relative to the current crate or module (`$crate` inside macros)
+const localCratePrefixes = new Set([
+    'crate',
+    'self',
+    'super',
+    'Self',
+    '$crate',
+]);
+
+const rustBuiltinCrates = new Set([
+    'std',
+    'core',
+    'alloc',
+    'proc_macro',
+    'test',
+]);
+
+type CargoCrate = {
+    name: string; // normalised crate name, e.g. my_crate
+    workspaceRoot: string;
+    dependencies: Map<string, string>; // crate name in code ➝ package@version
+};
+
+type CargoToml = {
+    package?: { name?: string };
+    workspace?: {
+        members?: string[];
+        dependencies?: Record<string, CargoDependency>;
+    };
+    dependencies?: Record<string, CargoDependency>;
+    'dev-dependencies'?: Record<string, CargoDependency>;
+    'build-dependencies'?: Record<string, CargoDependency>;
+    target?: Record<
+        string,
+        {
+            dependencies?: Record<string, CargoDependency>;
+            'dev-dependencies'?: Record<string, CargoDependency>;
+            'build-dependencies'?: Record<string, CargoDependency>;
+        }
+    >;
+};
+
+type CargoDependency =
+    | string
+    | {
+          version?: string;
+          package?: string;
+          path?: string;
+          workspace?: boolean;
+      };
+
+/**
+ * Reads every `Cargo.toml` of the repository and returns a map of crate
+ * directory => crate. Each crate is reported under the root of the Cargo
+ * workspace it belongs to (or its own directory when it is standalone), and
+ * its dependencies are resolved to the exact versions in that root's
+ * `Cargo.lock`.
+ */
+async function analyzeCargoCrates(
+    cargoTomlPaths: string[],
+): Promise<Map<string, CargoCrate>> {
+    const manifests = new Map<string, CargoToml>(); // dir ➝ manifest
+    for (const cargoTomlPath of cargoTomlPaths) {
+        try {
+            const content = await fs.readFile(cargoTomlPath, 'utf8');
+            manifests.set(
+                path.dirname(cargoTomlPath),
+                parseToml(content) as CargoToml,
+            );
+        } catch (error) {
+            console.error(`Failed to parse ${cargoTomlPath}:`, error);
+        }
+    }
+
+    const workspaceRoots = Array.from(manifests.entries())
+        .filter(([, manifest]) => manifest.workspace)
+        .map(([dir]) => dir);
+    const lockedVersionsByRoot = new Map<string, Map<string, string[]>>();
+
+    const crates = new Map<string, CargoCrate>();
+    for (const [crateDir, manifest] of manifests.entries()) {
+        if (!manifest.package?.name) {
+            continue; // Virtual workspace manifest
+        }
+
+        const workspaceRoot =
+            findProjectPath(crateDir, workspaceRoots) || crateDir;
+        if (!lockedVersionsByRoot.has(workspaceRoot)) {
+            lockedVersionsByRoot.set(
+                workspaceRoot,
+                await readCargoLock(path.join(workspaceRoot, 'Cargo.lock')),
+            );
+        }
+
+        crates.set(crateDir, {
+            name: normalizeCrateName(manifest.package.name),
+            workspaceRoot: workspaceRoot,
+            dependencies: resolveDependencies(
+                manifest,
+                manifests.get(workspaceRoot)?.workspace?.dependencies ?? {},
+                lockedVersionsByRoot.get(workspaceRoot)!,
+            ),
+        });
+    }
+
+    return crates;
+}
+
+function resolveDependencies(
+    manifest: CargoToml,
+    workspaceDependencies: Record<string, CargoDependency>,
+    lockedVersions: Map<string, string[]>,
+): Map<string, string> {
+    const tables = [
+        manifest.dependencies,
+        manifest['dev-dependencies'],
+        manifest['build-dependencies'],
+        ...Object.values(manifest.target ?? {}).flatMap((target) => [
+            target.dependencies,
+            target['dev-dependencies'],
+            target['build-dependencies'],
+        ]),
+    ];
+
+    const dependencies = new Map<string, string>();
+    for (const table of tables) {
+        for (const [key, rawDependency] of Object.entries(table ?? {})) {
+            const dependency =
+                typeof rawDependency === 'object' && rawDependency.workspace
+                    ? {
+                          ...toObject(workspaceDependencies[key]),
+                          ...rawDependency,
+                      }
+                    : toObject(rawDependency);
+            if (dependency.path && !dependency.version) {
+                continue; // Path dependencies are resolved as workspace crates
+            }
+
+            // `foo = { package = "foo-rs" }` is used in code as `foo`
+            const packageName = dependency.package ?? key;
+            const version = pickLockedVersion(
+                lockedVersions.get(packageName) ?? [],
+                dependency.version,
+            );
+            dependencies.set(
+                normalizeCrateName(key),
+                version ? `${packageName}@${version}` : packageName,
+            );
+        }
+    }
+    return dependencies;
+}
+
+function toObject(
+    dependency: CargoDependency | undefined,
+): Exclude<CargoDependency, string> {
+    if (typeof dependency === 'string') {
+        return { version: dependency };
+    }
+    return dependency ?? {};
+}
+
+/**
+ * Cargo.lock can hold several versions of the same package (e.g. a direct
+ * `rand 0.8` next to a transitive `rand 0.7`). Prefer the one that shares the
+ * leading version components of the requirement declared in Cargo.toml.
+ */
+function pickLockedVersion(
+    lockedVersions: string[],
+    requirement?: string,
+): string | undefined {
+    if (lockedVersions.length <= 1 || !requirement) {
+        return lockedVersions[0] ?? requirement;
+    }
+
+    const required = requirement.replace(/^[\^~=\s]+/, '').split('.');
+    const significant = required[0] === '0' ? 2 : 1; // 0.x versions are major
+    return (
+        lockedVersions.find((version) =>
+            version
+                .split('.')
+                .slice(0, significant)
+                .every((part, i) => part === required[i]),
+        ) ?? lockedVersions[0]
+    );
+}
+
+async function readCargoLock(
+    cargoLockPath: string,
+): Promise<Map<string, string[]>> {
+    const versions = new Map<string, string[]>(); // package ➝ versions
+    try {
+        const content = await fs.readFile(cargoLockPath, 'utf8');
+        const lock = parseToml(content) as {
+            package?: { name: string; version: string }[];
+        };
+        for (const pkg of lock.package ?? []) {
+            versions.set(pkg.name, [
+                ...(versions.get(pkg.name) ?? []),
+                pkg.version,
+            ]);
+        }
+    } catch {
+        console.warn(`No Cargo.lock found at ${cargoLockPath}`);
+    }
+    return versions;
+}
+
+function normalizeCrateName(name: string): string {
+    return name.replace(/-/g, '_');
+}
+
+const rustExcludedDirectories = ['benches', 'examples'];
+
+const rustExcludedFilePatterns: string[] = [];
+
+const rustTestExclusions: ExclusionRules = {
+    directories: ['tests'],
+    filePatterns: [],
+};
@@ -0,0 +1,119 @@
+/**
+ * Returns the JavaScript/TypeScript code embedded in single-file component
+ * formats (Vue, Svelte, Astro) and MDX, one string per block of code. Every
+ * character outside a block is blanked out while line breaks are kept, so
+ * offsets and line numbers of the parsed code stay those of the original
+ * file. Other files are returned as is.
+ */
+export function extractScriptBlocks(
+    source: string,
+    extension: string,
+): string[] {
+    switch (extension) {
+        case '.vue': // <script> and <script setup>
+        case '.svelte': // <script> and <script context="module">
+            return findScriptTags(source).map((range) =>
+                keepRanges(source, [range]),
+            );
+        case '.astro': {
+            const frontmatter = findAstroFrontmatter(source);
+            return [
+                ...(frontmatter ? [frontmatter] : []),
+                ...findScriptTags(source),
+            ].map((range) => keepRanges(source, [range]));
+        }
+        case '.mdx': {
+            // All ESM blocks of an MDX document form a single module
+            const ranges = findMdxEsmBlocks(source);
+            return ranges.length > 0 ? [keepRanges(source, ranges)] : [];
+        }
+        default:
+            return [source];
+    }
+}
+
+type SourceRange = [start: number, end: number];
+
+// Blanks out everything outside the given ranges, keeping line breaks
+function keepRanges(source: string, ranges: SourceRange[]): string {
+    let code = '';
+    let offset = 0;
+    for (const [start, end] of ranges) {
+        code += source.slice(offset, start).replace(/[^\n]/g, ' ');
+        code += source.slice(start, end);
+        offset = end;
+    }
+    return code + source.slice(offset).replace(/[^\n]/g, ' ');
+}
+
+const scriptTagRegex = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/**
+ * Finds the contents of inline `<script>` tags, skipping external scripts
+ * (`src="..."`) and non-JavaScript ones like `type="application/ld+json"`.
+ */
+function findScriptTags(source: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+    let match;
+    while ((match = scriptTagRegex.exec(source))) {
+        const attributes = match[1];
+        const type = attributes.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+        if (
+            /\bsrc\s*=/i.test(attributes) ||
+            (type && !/^(module|text\/(java|type)script|ts)$/i.test(type))
+        ) {
+            continue;
+        }
+
+        const start = match.index + match[0].indexOf('>') + 1;
+        ranges.push([start, start + match[2].length]);
+    }
+    return ranges;
+}
+
+// Astro components start with a `---` fenced block of TypeScript
+function findAstroFrontmatter(source: string): SourceRange | null {
+    const match = source.match(/^(\s*---\r?\n)([\s\S]*?)\r?\n---/);
+    if (!match) {
+        return null;
+    }
+    const start = match[1].length;
+    return [start, start + match[2].length];
+}
+
+/**
+ * MDX treats paragraphs starting with `import` or `export` as ECMAScript
+ * modules code; they run until the next blank line. Code fences are skipped,
+ * as they only show code.
+ */
+function findMdxEsmBlocks(source: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+    let fence: string | null = null;
+    let blockStart: number | null = null;
+    let offset = 0;
+
+    for (const line of source.split('\n')) {
+        const lineEnd = offset + line.length;
+        const fenceMatch = line.match(/^\s*(```|~~~)/);
+
+        if (blockStart !== null && line.trim() === '') {
+            ranges.push([blockStart, offset]);
+            blockStart = null;
+        } else if (fence) {
+            if (fenceMatch && fenceMatch[1] === fence) fence = null;
+        } else if (blockStart === null) {
+            if (fenceMatch) {
+                fence = fenceMatch[1];
+            } else if (/^(import|export)\b/.test(line)) {
+                blockStart = offset;
+            }
+        }
+
+        offset = lineEnd + 1;
+    }
+    if (blockStart !== null) {
+        ranges.push([blockStart, source.length]);
+    }
+
+    return ranges;
+}
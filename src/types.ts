@@ -5,20 +5,78 @@ export interface ImportStatement {
     modifiers: string[];
     language: string;
     library?: string;
+    libraryResolution?: LibraryResolution;
     fullImport: string;
 }
 
+// Where the version of `library` comes from, for plugins that record it
+export type LibraryResolution = 'lockfile' | 'node_modules' | 'package.json';
+
+export interface UsageStatement {
+    file: string;
+    line: number;
+    projectPath: string;
+    library: string;
+    symbol: string; // e.g. `_.debounce`, `moment().format`, `StringUtils.isBlank`
+    language: string;
+}
+
+export interface LibraryUsage {
+    projectPath: string;
+    library: string;
+    count: number;
+    symbols: {
+        symbol: string;
+        count: number;
+        references: string[]; // file:line
+    }[];
+}
+
+export interface ImportSummary {
+    files: number;
+    imports: number;
+    unresolvedImports: number; // without a library found in the dependency files
+    languages: { language: string; files: number; imports: number }[];
+    libraries: { library: string; files: number; imports: number }[];
+}
+
+// Libraries by name, with the versions imported
+export interface ImportDiff {
+    added: { name: string; versions: string[] }[];
+    removed: { name: string; versions: string[] }[];
+    changed: { name: string; before: string[]; after: string[] }[];
+}
+
 export interface LanguageExtractor {
-    isIgnored: (file: string) => boolean;
+    isIgnored: (file: string, repoPath: string) => boolean;
     extractImports: (
         filePath: string,
         repoPath: string,
     ) => Promise<ImportStatement[]>;
+    extractUsages?: (
+        filePath: string,
+        repoPath: string,
+    ) => Promise<UsageStatement[]>;
 }
 
 export interface Plugin {
+    name: string;
     createExtractor: (
         groupedFilesByExtensions: Map<string, string[]>,
+        settings: PluginSettings,
     ) => Promise<LanguageExtractor>;
     extensions: string[];
 }
+
+export interface ExclusionRules {
+    directories: string[];
+    filePatterns: string[];
+}
+
+// The settings of a plugin in the config file (`pluginSettings.<name>`)
+export interface PluginSettings {
+    exclude: ExclusionRules; // added to the plugin's default exclusions
+    include: ExclusionRules; // default exclusions of the plugin to drop
+    localImportPrefixes: string[]; // extra prefixes of the project's own imports
+    includeTests?: boolean; // analyze test files, defaults to `includeTests` of the config
+}
@@ -1,5 +1,12 @@
 import * as fs from 'fs/promises';
-import { ImportStatement } from './types';
+import path from 'path';
+import {
+    ImportDiff,
+    ImportStatement,
+    ImportSummary,
+    LibraryUsage,
+    UsageStatement,
+} from './types';
 
 export async function saveImportsToJsonFile(
     importStatements: ImportStatement[],
@@ -8,6 +15,7 @@ export async function saveImportsToJsonFile(
     try {
         const data = JSON.stringify(importStatements, null, 2);
 
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
         await fs.writeFile(outputPath, data, 'utf8');
     } catch (error) {
         if (error instanceof Error) {
@@ -24,7 +32,10 @@ export async function saveImportsToCsvFile(
     data: ImportStatement[],
     outputPath: string,
 ): Promise<void> {
-    const headers = Object.keys(data[0]);
+    // Optional fields like `library` are missing from some rows
+    const headers = Array.from(
+        new Set(data.flatMap((row) => Object.keys(row))),
+    );
 
     const csvContent = [
         headers.join(','),
@@ -49,8 +60,275 @@ export async function saveImportsToCsvFile(
     ].join('\n');
 
     try {
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
         await fs.writeFile(outputPath, csvContent, 'utf8');
     } catch (error) {
         console.error(`Failed to save CSV file: ${error}`);
     }
 }
+
+/**
+ * Aggregates usage statements into per-project, per-library usage counts,
+ * with the symbols used most listed first.
+ */
+export function summarizeUsages(
+    usageStatements: UsageStatement[],
+): LibraryUsage[] {
+    const summaries = new Map<string, LibraryUsage>();
+
+    for (const {
+        file,
+        line,
+        projectPath,
+        library,
+        symbol,
+    } of usageStatements) {
+        const key = `${projectPath}\0${library}`;
+        if (!summaries.has(key)) {
+            summaries.set(key, { projectPath, library, count: 0, symbols: [] });
+        }
+        const summary = summaries.get(key)!;
+        summary.count++;
+
+        let symbolUsage = summary.symbols.find(
+            (usage) => usage.symbol === symbol,
+        );
+        if (!symbolUsage) {
+            symbolUsage = { symbol, count: 0, references: [] };
+            summary.symbols.push(symbolUsage);
+        }
+        symbolUsage.count++;
+        symbolUsage.references.push(`${file}:${line}`);
+    }
+
+    return Array.from(summaries.values())
+        .map((summary) => ({
+            ...summary,
+            symbols: summary.symbols.sort((a, b) => b.count - a.count),
+        }))
+        .sort((a, b) => b.count - a.count);
+}
+
+export async function saveUsagesToJsonFile(
+    libraryUsages: LibraryUsage[],
+    outputPath: string,
+): Promise<void> {
+    try {
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(
+            outputPath,
+            JSON.stringify(libraryUsages, null, 2),
+            'utf8',
+        );
+    } catch (error) {
+        console.error(`Failed to save usages to file: ${error}`);
+    }
+}
+
+/**
+ * Counts the imports and files by language and by library. Imports without
+ * a library, or whose library was not found in the dependency files, are
+ * only counted as unresolved.
+ */
+export function summarizeImports(
+    importStatements: ImportStatement[],
+): ImportSummary {
+    const files = new Set<string>();
+    const languages = new Map<
+        string,
+        { files: Set<string>; imports: number }
+    >();
+    const libraries = new Map<
+        string,
+        { files: Set<string>; imports: number }
+    >();
+    let unresolvedImports = 0;
+
+    const count = (
+        counts: Map<string, { files: Set<string>; imports: number }>,
+        key: string,
+        file: string,
+    ) => {
+        if (!counts.has(key)) {
+            counts.set(key, { files: new Set(), imports: 0 });
+        }
+        counts.get(key)!.files.add(file);
+        counts.get(key)!.imports++;
+    };
+
+    // `file` is relative to the repository, whatever the project
+    for (const { file, language, library } of importStatements) {
+        files.add(file);
+        count(languages, language, file);
+        if (isResolvedLibrary(library)) {
+            count(libraries, library, file);
+        } else {
+            unresolvedImports++;
+        }
+    }
+
+    const toList = (
+        counts: Map<string, { files: Set<string>; imports: number }>,
+    ) =>
+        Array.from(counts.entries())
+            .map(([name, { files, imports }]) => ({
+                name,
+                files: files.size,
+                imports,
+            }))
+            .sort((a, b) => b.imports - a.imports);
+
+    return {
+        files: files.size,
+        imports: importStatements.length,
+        unresolvedImports,
+        languages: toList(languages).map(({ name, ...counts }) => ({
+            language: name,
+            ...counts,
+        })),
+        libraries: toList(libraries).map(({ name, ...counts }) => ({
+            library: name,
+            ...counts,
+        })),
+    };
+}
+
+/**
+ * Compares the libraries imported in two extractions, by name: libraries
+ * only imported after are added, those only imported before removed, and
+ * those imported with other versions changed. Only `name@version` libraries
+ * are compared, as others (Java package prefixes, JAR file names) cannot be
+ * told apart from a new version.
+ */
+export function diffImports(
+    before: ImportStatement[],
+    after: ImportStatement[],
+): ImportDiff {
+    const versionsBefore = groupVersionsByLibraryName(before);
+    const versionsAfter = groupVersionsByLibraryName(after);
+    const diff: ImportDiff = { added: [], removed: [], changed: [] };
+
+    for (const [name, versions] of versionsAfter) {
+        if (!versionsBefore.has(name)) {
+            diff.added.push({ name, versions: Array.from(versions).sort() });
+        }
+    }
+    for (const [name, versions] of versionsBefore) {
+        const newVersions = versionsAfter.get(name);
+        if (!newVersions) {
+            diff.removed.push({ name, versions: Array.from(versions).sort() });
+        } else if (
+            versions.size !== newVersions.size ||
+            [...versions].some((version) => !newVersions.has(version))
+        ) {
+            diff.changed.push({
+                name,
+                before: Array.from(versions).sort(),
+                after: Array.from(newVersions).sort(),
+            });
+        }
+    }
+
+    const byName = (a: { name: string }, b: { name: string }) =>
+        a.name.localeCompare(b.name);
+    diff.added.sort(byName);
+    diff.removed.sort(byName);
+    diff.changed.sort(byName);
+    return diff;
+}
+
+function groupVersionsByLibraryName(
+    importStatements: ImportStatement[],
+): Map<string, Set<string>> {
+    const versionsByName = new Map<string, Set<string>>();
+    for (const { library } of importStatements) {
+        if (!isResolvedLibrary(library)) {
+            continue;
+        }
+        // `name@version`, where scoped npm names also start with `@`
+        const separator = library.lastIndexOf('@');
+        if (separator <= 0) {
+            continue;
+        }
+        const name = library.slice(0, separator);
+        const version = library.slice(separator + 1);
+
+        if (!versionsByName.has(name)) {
+            versionsByName.set(name, new Set());
+        }
+        versionsByName.get(name)!.add(version);
+    }
+    return versionsByName;
+}
+
+// Plugins record a `No match found in ...` library when resolution fails
+function isResolvedLibrary(library: string | undefined): library is string {
+    return !!library && !library.startsWith('No match found');
+}
+
+export function formatSummary(summary: ImportSummary): string {
+    const lines = [
+        `Files with imports: ${summary.files}`,
+        `Imports: ${summary.imports} (${summary.unresolvedImports} without a resolved library)`,
+        '',
+        'Languages:',
+        ...formatCounts(
+            summary.languages.map(({ language, ...counts }) => ({
+                name: language,
+                ...counts,
+            })),
+        ),
+        '',
+        'Libraries:',
+        ...formatCounts(
+            summary.libraries.map(({ library, ...counts }) => ({
+                name: library,
+                ...counts,
+            })),
+        ),
+    ];
+    return lines.join('\n');
+}
+
+function formatCounts(
+    counts: { name: string; files: number; imports: number }[],
+): string[] {
+    if (counts.length === 0) {
+        return ['  (none)'];
+    }
+    const width = Math.max(...counts.map(({ name }) => name.length));
+    return counts.map(
+        ({ name, files, imports }) =>
+            `  ${name.padEnd(width)}  ${imports} imports in ${files} files`,
+    );
+}
+
+export function formatDiff(diff: ImportDiff): string {
+    if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+        return 'No library changes';
+    }
+    const versions = (list: string[]) => list.join(', ');
+    const sections = [
+        [
+            `Added (${diff.added.length}):`,
+            ...diff.added.map(
+                ({ name, versions: added }) => `  + ${name} ${versions(added)}`,
+            ),
+        ],
+        [
+            `Removed (${diff.removed.length}):`,
+            ...diff.removed.map(
+                ({ name, versions: removed }) =>
+                    `  - ${name} ${versions(removed)}`,
+            ),
+        ],
+        [
+            `Changed (${diff.changed.length}):`,
+            ...diff.changed.map(
+                ({ name, before, after }) =>
+                    `  ~ ${name} ${versions(before)} -> ${versions(after)}`,
+            ),
+        ],
+    ];
+    return sections.map((lines) => lines.join('\n')).join('\n\n');
+}